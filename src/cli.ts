@@ -1,7 +1,408 @@
 #!/usr/bin/env node
-import { startServer } from "./server.js";
+import { createWriteStream } from "node:fs";
+import type { WriteStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { commandNames, isCommandName } from "./commands.js";
+import { loadConfig, resolveConfigPaths, serverOptionsFromConfig } from "./config.js";
+import type { ServerConfig } from "./config.js";
+import { createServer } from "./embed.js";
+import { createLogger, logLevels } from "./logger.js";
+import type { LogLevel } from "./logger.js";
+import { parseBackendProfiles } from "./modules.js";
+import type { BackendProfile } from "./modules.js";
+import type { ProtocolMode } from "./protocol.js";
+import type { ShutdownReport } from "./server.js";
 
-startServer({
-  input: process.stdin,
-  output: process.stdout
-});
+type CliOptions = {
+  httpPort?: number;
+  socketPath?: string;
+  tcpPort?: number;
+  host?: string;
+  tokens?: string[];
+  configFile?: string;
+  discoverConfig: boolean;
+  backendsFile?: string;
+  recordFile?: string;
+  json: boolean;
+  outDir?: string;
+  maxChunks?: number;
+  positionals: string[];
+  flags: ServerConfig;
+};
+
+const protocolModes: ProtocolMode[] = ["auto", "legacy", "jsonrpc"];
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n`);
+  process.exit(2);
+};
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const readFlagValue = (args: string[], index: number, flag: string): { value: string; consumed: number } => {
+  const arg = args[index];
+  if (arg.startsWith(`${flag}=`)) {
+    return { value: arg.slice(flag.length + 1), consumed: 0 };
+  }
+
+  const value = args[index + 1];
+  if (value === undefined) {
+    return fail(`${flag} requires a value.`);
+  }
+
+  return { value, consumed: 1 };
+};
+
+const parsePositiveInteger = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return fail(`${flag} must be a positive integer.`);
+  }
+
+  return parsed;
+};
+
+const parsePort = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 65535) {
+    return fail(`${flag} must be a port number.`);
+  }
+
+  return parsed;
+};
+
+const parseTimeout = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    return fail(`${flag} must be a non-negative number of milliseconds.`);
+  }
+
+  return parsed;
+};
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = { discoverConfig: true, json: false, positionals: [], flags: {} };
+  const { flags } = options;
+  const setDefaultOption = (key: string, value: unknown) => {
+    flags.defaults = { ...flags.defaults, options: { ...flags.defaults?.options, [key]: value } };
+  };
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    const flag = arg.split("=")[0];
+
+    switch (flag) {
+      case "--jsonrpc":
+        flags.protocol = "jsonrpc";
+        break;
+      case "--legacy":
+        flags.protocol = "legacy";
+        break;
+      case "--ordered":
+        flags.ordered = true;
+        break;
+      case "--legacy-errors":
+        flags.legacyErrors = true;
+        break;
+      case "--no-config":
+        options.discoverConfig = false;
+        break;
+      case "--json":
+        options.json = true;
+        break;
+      case "--emit-files":
+        setDefaultOption("emitFiles", true);
+        break;
+      case "--no-return-recipes":
+        setDefaultOption("returnRecipes", false);
+        break;
+      case "--strict-validation":
+        setDefaultOption("strictValidation", true);
+        break;
+      case "--protocol": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        if (!(protocolModes as string[]).includes(value)) {
+          fail(`Unknown protocol "${value}". Expected one of: ${protocolModes.join(", ")}.`);
+        }
+        flags.protocol = value as ProtocolMode;
+        index += consumed;
+        break;
+      }
+      case "--config": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.configFile = value;
+        index += consumed;
+        break;
+      }
+      case "--ingest-module": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.modules = { ...flags.modules, ingest: value };
+        index += consumed;
+        break;
+      }
+      case "--validator-module": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.modules = { ...flags.modules, validator: value };
+        index += consumed;
+        break;
+      }
+      case "--out-dir": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.defaults = { ...flags.defaults, outDir: value };
+        index += consumed;
+        break;
+      }
+      case "--out": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.outDir = value;
+        index += consumed;
+        break;
+      }
+      case "--max-chunks": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.maxChunks = parsePositiveInteger(value, flag);
+        index += consumed;
+        break;
+      }
+      case "--max-recipes": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        setDefaultOption("maxRecipes", parsePositiveInteger(value, flag));
+        index += consumed;
+        break;
+      }
+      case "--allow-root": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.allowedRoots = [...(flags.allowedRoots ?? []), value];
+        index += consumed;
+        break;
+      }
+      case "--log-level": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        if (!(logLevels as readonly string[]).includes(value)) {
+          fail(`Unknown log level "${value}". Expected one of: ${logLevels.join(", ")}.`);
+        }
+        flags.logLevel = value as LogLevel;
+        index += consumed;
+        break;
+      }
+      case "--concurrency": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.concurrency = parsePositiveInteger(value, flag);
+        index += consumed;
+        break;
+      }
+      case "--max-queue": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.maxQueue = parsePositiveInteger(value, flag);
+        index += consumed;
+        break;
+      }
+      case "--timeout": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.timeouts = { ...flags.timeouts, "*": parseTimeout(value, flag) };
+        index += consumed;
+        break;
+      }
+      case "--tool-timeout": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        const separator = value.lastIndexOf("=");
+        if (separator <= 0) {
+          fail(`${flag} expects <tool>=<milliseconds>.`);
+        }
+        flags.timeouts = { ...flags.timeouts, [value.slice(0, separator)]: parseTimeout(value.slice(separator + 1), flag) };
+        index += consumed;
+        break;
+      }
+      case "--shutdown-timeout": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.shutdownTimeout = parseTimeout(value, flag);
+        index += consumed;
+        break;
+      }
+      case "--http": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.httpPort = parsePort(value, flag);
+        index += consumed;
+        break;
+      }
+      case "--host": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.host = value;
+        index += consumed;
+        break;
+      }
+      case "--socket": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.socketPath = value;
+        index += consumed;
+        break;
+      }
+      case "--tcp": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.tcpPort = parsePort(value, flag);
+        index += consumed;
+        break;
+      }
+      case "--plugin": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.plugins = [...(flags.plugins ?? []), value];
+        index += consumed;
+        break;
+      }
+      case "--backends": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.backendsFile = value;
+        index += consumed;
+        break;
+      }
+      case "--backend": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        flags.defaultBackend = value;
+        index += consumed;
+        break;
+      }
+      case "--record": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.recordFile = value;
+        index += consumed;
+        break;
+      }
+      case "--token": {
+        const { value, consumed } = readFlagValue(args, index, flag);
+        options.tokens = [...(options.tokens ?? []), value];
+        index += consumed;
+        break;
+      }
+      default:
+        if (arg.startsWith("-")) {
+          fail(`Unknown option "${arg}".`);
+        }
+        options.positionals.push(arg);
+    }
+  }
+
+  const listeners = [options.httpPort, options.socketPath, options.tcpPort].filter((value) => value !== undefined);
+  if (listeners.length > 1) {
+    fail("Use only one of --http, --socket and --tcp.");
+  }
+
+  const [command] = options.positionals;
+  if (command !== undefined && !isCommandName(command)) {
+    fail(`Unknown command "${command}". Expected one of: ${commandNames.join(", ")}.`);
+  }
+
+  if (command !== undefined && listeners.length > 0) {
+    fail(`The ${command} command cannot be combined with --http, --socket or --tcp.`);
+  }
+
+  return options;
+};
+
+const readBackends = async (file: string): Promise<Record<string, BackendProfile>> => {
+  try {
+    return parseBackendProfiles(JSON.parse(await readFile(file, "utf8")), path.dirname(path.resolve(file)));
+  } catch (error) {
+    return fail(`Could not read backends from "${file}": ${describeError(error)}`);
+  }
+};
+
+const reportShutdown = (report: ShutdownReport): void => {
+  process.stderr.write(
+    `soustack-mcp-ingest stopped: ${report.finished} finished, ${report.abandoned} abandoned\n`
+  );
+};
+
+const onSignal = (stop: () => Promise<ShutdownReport>, record?: WriteStream): void => {
+  const handler = () => {
+    stop().then((report) => {
+      reportShutdown(report);
+      if (record) {
+        record.end(() => process.exit(0));
+      } else {
+        process.exit(0);
+      }
+    });
+  };
+  process.once("SIGTERM", handler);
+  process.once("SIGINT", handler);
+};
+
+const {
+  httpPort,
+  socketPath,
+  tcpPort,
+  host,
+  tokens,
+  configFile,
+  discoverConfig,
+  backendsFile,
+  recordFile,
+  json,
+  outDir,
+  maxChunks,
+  positionals,
+  flags
+} = parseArgs(process.argv.slice(2));
+const flagConfig = resolveConfigPaths(
+  { ...flags, backends: backendsFile === undefined ? undefined : await readBackends(backendsFile) },
+  process.cwd()
+);
+const snapshot = await loadConfig({ file: configFile, discover: discoverConfig, flags: flagConfig }).catch(
+  (error: unknown) => fail(describeError(error))
+);
+const logger = createLogger(snapshot.config.logLevel ?? "warn");
+const record = recordFile === undefined ? undefined : createWriteStream(path.resolve(recordFile), { flags: "a" });
+const serverOptions = { ...serverOptionsFromConfig(snapshot.config), logger, config: snapshot, record };
+const server = createServer();
+
+if (snapshot.file) {
+  logger.info("loaded config", { file: snapshot.file });
+}
+
+for (const plugin of snapshot.config.plugins ?? []) {
+  try {
+    await server.plugin(plugin);
+    logger.info("loaded plugin", { plugin });
+  } catch (error) {
+    fail(`Could not load plugin "${plugin}": ${describeError(error)}`);
+  }
+}
+
+const [command, ...commandArgs] = positionals;
+
+if (command !== undefined && isCommandName(command)) {
+  process.exitCode = await server.run(command, commandArgs, {
+    ...serverOptions,
+    json,
+    outDir,
+    maxChunks,
+    stdout: process.stdout,
+    stderr: process.stderr
+  });
+} else if (httpPort !== undefined) {
+  const handle = await server.startHttp({
+    ...serverOptions,
+    port: httpPort,
+    host,
+    token: tokens ?? process.env.SOUSTACK_MCP_TOKEN
+  });
+  process.stderr.write(`soustack-mcp-ingest listening on ${handle.url}\n`);
+  onSignal(() => handle.close(), record);
+} else if (socketPath !== undefined || tcpPort !== undefined) {
+  const handle = await server.startSocket({ ...serverOptions, path: socketPath, port: tcpPort, host });
+  process.stderr.write(`soustack-mcp-ingest listening on ${handle.address}\n`);
+  onSignal(() => handle.close(), record);
+} else {
+  const handle = server.start({
+    ...serverOptions,
+    input: process.stdin,
+    output: process.stdout
+  });
+  process.once("SIGTERM", () => void handle.shutdown());
+  process.once("SIGINT", () => void handle.shutdown());
+  handle.done.then((report) => {
+    reportShutdown(report);
+    process.exit(0);
+  });
+}
@@ -0,0 +1,320 @@
+import readline from "node:readline";
+import { PassThrough } from "node:stream";
+import { ToolError } from "./errors.js";
+import type { ProgressEvent, Response } from "./protocol.js";
+import { startServer } from "./server.js";
+import type {
+  ExtractChunk,
+  ExtractOptions,
+  IngestDocumentInput,
+  IngestDocumentOutput,
+  IntermediateRecipe,
+  IntermediateRecipeInput,
+  PipelineOptions,
+  PipelineOutput,
+  SegmentOptions,
+  SegmentOutput,
+  ServerOptions,
+  ShutdownReport,
+  ToSoustackOptions,
+  ToSoustackOutput,
+  ValidationResult
+} from "./server.js";
+
+export type ClientOptions = {
+  input: NodeJS.WritableStream & { end: () => void };
+  output: NodeJS.ReadableStream;
+  idPrefix?: string;
+};
+
+export type ClientRequestOptions = {
+  id?: string;
+  timeoutMs?: number;
+  backend?: string;
+};
+
+export type ClientCall<T> = {
+  id: string;
+  progress: AsyncIterableIterator<ProgressEvent>;
+  result: Promise<T>;
+  cancel: () => Promise<boolean>;
+};
+
+export type ClientMessage = Record<string, unknown>;
+
+export type Client = {
+  call: <T = Record<string, unknown>>(
+    tool: string,
+    input?: Record<string, unknown>,
+    options?: ClientRequestOptions
+  ) => ClientCall<T>;
+  request: <T = Record<string, unknown>>(
+    tool: string,
+    input?: Record<string, unknown>,
+    options?: ClientRequestOptions
+  ) => Promise<T>;
+  notifications: () => AsyncIterableIterator<ClientMessage>;
+  cancel: (id: string) => Promise<boolean>;
+  ping: () => Promise<{ pong: boolean }>;
+  meta: (options?: ClientRequestOptions) => Promise<Record<string, unknown>>;
+  segment: (text: string, options?: SegmentOptions, request?: ClientRequestOptions) => Promise<SegmentOutput>;
+  extract: (
+    text: string,
+    chunk: ExtractChunk,
+    options?: ExtractOptions,
+    request?: ClientRequestOptions
+  ) => Promise<{ intermediate: IntermediateRecipe }>;
+  toSoustack: (
+    intermediate: IntermediateRecipeInput,
+    options?: ToSoustackOptions,
+    request?: ClientRequestOptions
+  ) => Promise<ToSoustackOutput>;
+  validate: (recipe: object, request?: ClientRequestOptions) => Promise<ValidationResult>;
+  ingestDocument: (input: IngestDocumentInput, request?: ClientRequestOptions) => Promise<IngestDocumentOutput>;
+  pipeline: (text: string, options?: PipelineOptions, request?: ClientRequestOptions) => Promise<PipelineOutput>;
+  close: () => Promise<void>;
+};
+
+export type MemoryClient = Client & {
+  done: Promise<ShutdownReport>;
+};
+
+type Channel<T> = {
+  push: (value: T) => void;
+  end: () => void;
+  iterator: AsyncIterableIterator<T>;
+};
+
+type PendingCall = {
+  resolve: (response: Response) => void;
+  response: Promise<Response>;
+  progress: Channel<ProgressEvent>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const createChannel = <T>(onEnd?: () => void): Channel<T> => {
+  const buffered: T[] = [];
+  const waiting: Array<(result: IteratorResult<T>) => void> = [];
+  let ended = false;
+
+  const end = () => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+    onEnd?.();
+  };
+
+  const iterator: AsyncIterableIterator<T> = {
+    next: () => {
+      if (buffered.length > 0) {
+        return Promise.resolve({ value: buffered.shift() as T, done: false });
+      }
+      if (ended) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    return: async () => {
+      buffered.length = 0;
+      end();
+      return { value: undefined, done: true };
+    },
+    [Symbol.asyncIterator]: () => iterator
+  };
+
+  return {
+    push: (value) => {
+      if (ended) {
+        return;
+      }
+      const waiter = waiting.shift();
+      if (waiter) {
+        waiter({ value, done: false });
+      } else {
+        buffered.push(value);
+      }
+    },
+    end,
+    iterator
+  };
+};
+
+const unwrap = <T>(response: Response): T => {
+  if (!response.ok) {
+    throw new ToolError(response.error.code, response.error.message, response.error.details ?? {});
+  }
+  return response.output as T;
+};
+
+export const createClient = ({ input, output, idPrefix = "client" }: ClientOptions): Client => {
+  const lines = readline.createInterface({ input: output, crlfDelay: Infinity });
+  const pending = new Map<string, PendingCall>();
+  const subscribers = new Set<Channel<ClientMessage>>();
+  let counter = 0;
+  let closed = false;
+
+  const settle = (id: string, response: Response) => {
+    const call = pending.get(id);
+    if (!call) {
+      return false;
+    }
+    pending.delete(id);
+    call.progress.end();
+    call.resolve(response);
+    return true;
+  };
+
+  const disconnect = () => {
+    closed = true;
+    [...pending.keys()].forEach((id) =>
+      settle(id, {
+        id,
+        ok: false,
+        error: { code: "connection_closed", message: "The connection closed before a response arrived." }
+      })
+    );
+    [...subscribers].forEach((subscriber) => subscriber.end());
+  };
+
+  lines.on("line", (line: string) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (!isRecord(message)) {
+      return;
+    }
+
+    const id = typeof message.id === "string" ? message.id : null;
+    if (id !== null && typeof message.ok === "boolean" && settle(id, message as Response)) {
+      return;
+    }
+
+    if (id !== null && message.event === "progress" && isRecord(message.progress)) {
+      pending.get(id)?.progress.push(message.progress as ProgressEvent);
+    }
+    subscribers.forEach((subscriber) => subscriber.push(message as ClientMessage));
+  });
+  lines.on("close", disconnect);
+
+  const rejected = (id: string, code: string, message: string): PendingCall => {
+    const progress = createChannel<ProgressEvent>();
+    progress.end();
+    return { resolve: () => undefined, response: Promise.resolve({ id, ok: false, error: { code, message } }), progress };
+  };
+
+  const send = (message: Record<string, unknown>): PendingCall => {
+    const id = String(message.id);
+    if (closed) {
+      return rejected(id, "connection_closed", "The client is closed.");
+    }
+
+    if (pending.has(id)) {
+      return rejected(id, "duplicate_id", `A request with id "${id}" is already in flight.`);
+    }
+
+    let resolve: (response: Response) => void = () => undefined;
+    const response = new Promise<Response>((settled) => {
+      resolve = settled;
+    });
+    const entry: PendingCall = { resolve, response, progress: createChannel<ProgressEvent>() };
+    pending.set(id, entry);
+    input.write(`${JSON.stringify(message)}\n`);
+    return entry;
+  };
+
+  const nextId = (prefix = idPrefix): string => {
+    counter += 1;
+    return `${prefix}-${counter}`;
+  };
+
+  const cancel = async (id: string): Promise<boolean> => {
+    const { response } = send({ id: nextId(`${idPrefix}-cancel`), tool: "cancel", input: { id } });
+    return unwrap<{ cancelled: boolean }>(await response).cancelled;
+  };
+
+  const call = <T = Record<string, unknown>>(
+    tool: string,
+    toolInput: Record<string, unknown> = {},
+    { id = nextId(), timeoutMs, backend }: ClientRequestOptions = {}
+  ): ClientCall<T> => {
+    const { response, progress } = send({
+      id,
+      tool,
+      input: backend === undefined ? toolInput : { ...toolInput, backend },
+      progress: true,
+      ...(timeoutMs !== undefined ? { timeoutMs } : {})
+    });
+    const result = response.then((message) => unwrap<T>(message));
+    result.catch(() => undefined);
+
+    return { id, progress: progress.iterator, result, cancel: () => cancel(id) };
+  };
+
+  const request: Client["request"] = async (tool, toolInput = {}, { id = nextId(), timeoutMs, backend } = {}) =>
+    unwrap(
+      await send({
+        id,
+        tool,
+        input: backend === undefined ? toolInput : { ...toolInput, backend },
+        ...(timeoutMs !== undefined ? { timeoutMs } : {})
+      }).response
+    );
+
+  return {
+    call,
+    request,
+    notifications: () => {
+      const channel: Channel<ClientMessage> = createChannel(() => subscribers.delete(channel));
+      if (closed) {
+        channel.end();
+      } else {
+        subscribers.add(channel);
+      }
+      return channel.iterator;
+    },
+    cancel,
+    ping: () => request("ping"),
+    meta: (options) => request("ingest.meta", {}, options),
+    segment: (text, options, requestOptions) =>
+      request("ingest.segment", options === undefined ? { text } : { text, options }, requestOptions),
+    extract: (text, chunk, options, requestOptions) =>
+      request("ingest.extract", options === undefined ? { text, chunk } : { text, chunk, options }, requestOptions),
+    toSoustack: (intermediate, options, requestOptions) =>
+      request("ingest.toSoustack", options === undefined ? { intermediate } : { intermediate, options }, requestOptions),
+    validate: (recipe, requestOptions) => request("ingest.validate", { recipe }, requestOptions),
+    ingestDocument: (documentInput, requestOptions) => request("ingest.document", documentInput, requestOptions),
+    pipeline: (text, options, requestOptions) =>
+      request("ingest.pipeline", options === undefined ? { text } : { text, options }, requestOptions),
+    close: async () => {
+      if (!closed) {
+        input.end();
+      }
+      await Promise.all([...pending.values()].map((entry) => entry.response));
+      lines.close();
+      disconnect();
+    }
+  };
+};
+
+export const createMemoryClient = (options: Omit<ServerOptions, "input" | "output"> = {}): MemoryClient => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const server = startServer({ ...options, input, output });
+  const client = createClient({ input, output });
+
+  return {
+    ...client,
+    done: server.done,
+    close: async () => {
+      await client.close();
+      await server.done;
+    }
+  };
+};
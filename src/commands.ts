@@ -0,0 +1,285 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { isMarkdownPath } from "./markdown.js";
+import type { Response } from "./protocol.js";
+import { createScheduler } from "./scheduler.js";
+import { configuredSessionOptions, createSession } from "./server.js";
+import type { IngestDocumentOutput, ServerOptions, Session } from "./server.js";
+import { readTranscript, replayTranscript } from "./transcript.js";
+import type { TranscriptEntry } from "./transcript.js";
+
+export const commandNames = ["ingest", "segment", "validate", "replay"] as const;
+
+export type CommandName = (typeof commandNames)[number];
+
+export const exitCodes = {
+  ok: 0,
+  validationFailed: 1,
+  mismatch: 1,
+  usage: 2,
+  toolFailed: 3
+} as const;
+
+export type CommandOptions = Omit<ServerOptions, "input" | "output"> & {
+  json?: boolean;
+  outDir?: string;
+  maxChunks?: number;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+};
+
+type CommandContext = {
+  session: Session;
+  options: CommandOptions;
+  print: (line: string) => void;
+  report: (line: string) => void;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export const isCommandName = (value: string): value is CommandName => (commandNames as readonly string[]).includes(value);
+
+const exitCodeFor = (response: Response): number => {
+  if (response.ok) {
+    return exitCodes.ok;
+  }
+
+  switch (response.error.code) {
+    case "validation_failed":
+      return exitCodes.validationFailed;
+    case "invalid_input":
+    case "path_not_allowed":
+      return exitCodes.usage;
+    default:
+      return exitCodes.toolFailed;
+  }
+};
+
+const reportFailure = ({ report }: CommandContext, response: Response): void => {
+  if (response.ok) {
+    return;
+  }
+
+  report(`error (${response.error.code}): ${response.error.message}`);
+  const { errors } = response.error.details ?? {};
+  if (Array.isArray(errors) && response.error.code !== "validation_failed") {
+    errors.forEach((error) => report(`  ${String(error)}`));
+  }
+};
+
+const printJson = ({ print }: CommandContext, value: unknown): void => {
+  print(JSON.stringify(value, null, 2));
+};
+
+const readText = async (context: CommandContext, file: string): Promise<string | null> => {
+  try {
+    return await readFile(file, "utf8");
+  } catch (error) {
+    context.report(`Could not read "${file}": ${describeError(error)}`);
+    return null;
+  }
+};
+
+const runIngest = async (context: CommandContext, args: string[]): Promise<number> => {
+  const { session, options, print, report } = context;
+  if (args.length !== 1) {
+    report("Usage: soustack-mcp-ingest ingest <path> [--out <dir>]");
+    return exitCodes.usage;
+  }
+
+  const inputPath = path.resolve(args[0]);
+  const response = await session.call("ingest", "ingest.document", {
+    inputPath,
+    ...(options.outDir ? { outDir: path.resolve(options.outDir) } : {})
+  });
+
+  if (options.json) {
+    printJson(context, response.ok ? response.output : response.error);
+    return exitCodeFor(response);
+  }
+
+  if (!response.ok) {
+    reportFailure(context, response);
+    const { recipes, errors } = response.error.details ?? {};
+    if (response.error.code === "validation_failed" && Array.isArray(errors)) {
+      errors.forEach((error) => report(`  ${String(error)}`));
+      if (Array.isArray(recipes)) {
+        report(`${plural(recipes.length, "recipe")} extracted from ${inputPath}`);
+      }
+    }
+    return exitCodeFor(response);
+  }
+
+  const output = response.output as IngestDocumentOutput;
+  const recipes = output.recipes ?? [];
+  if (output.files) {
+    print(`Ingested ${plural(recipes.length, "recipe")} from ${plural(output.files.length, "file")} in ${inputPath}`);
+    output.files.forEach((file) => {
+      const count = file.recipes?.length ?? file.emitted?.count ?? 0;
+      print(`  ${file.source.relativePath}: ${file.ok ? plural(count, "recipe") : `failed (${file.code})`}`);
+      file.recipes?.forEach((recipe) => print(`    ${recipe.name} (${recipe.slug})`));
+    });
+    output.skipped?.forEach((entry) => report(`skipped ${entry.path}: ${entry.reason}`));
+  } else {
+    print(`Ingested ${plural(recipes.length, "recipe")} from ${inputPath}`);
+    recipes.forEach((recipe) => print(`  ${recipe.name} (${recipe.slug})`));
+  }
+  if (isRecord(response.output.emitted)) {
+    print(`Wrote ${plural(Number(response.output.emitted.count), "recipe")} to ${String(response.output.emitted.outDir)}`);
+  }
+  output.errors.forEach((error) => report(`warning: ${error}`));
+  return output.ok ? exitCodes.ok : exitCodes.toolFailed;
+};
+
+const runSegment = async (context: CommandContext, args: string[]): Promise<number> => {
+  const { session, options, print, report } = context;
+  if (args.length !== 1) {
+    report("Usage: soustack-mcp-ingest segment <file> [--max-chunks <n>]");
+    return exitCodes.usage;
+  }
+
+  const text = await readText(context, args[0]);
+  if (text === null) {
+    return exitCodes.usage;
+  }
+
+  const segmentOptions = {
+    ...(options.maxChunks !== undefined ? { maxChunks: options.maxChunks } : {}),
+    ...(isMarkdownPath(args[0]) ? { format: "markdown" } : {})
+  };
+  const response = await session.call("segment", "ingest.segment", {
+    text,
+    ...(Object.keys(segmentOptions).length > 0 ? { options: segmentOptions } : {})
+  });
+
+  if (options.json) {
+    printJson(context, response.ok ? response.output : response.error);
+    return exitCodeFor(response);
+  }
+
+  if (!response.ok) {
+    reportFailure(context, response);
+    return exitCodeFor(response);
+  }
+
+  const chunks = response.output.chunks as Array<Record<string, unknown>>;
+  print(`${plural(chunks.length, "chunk")} in ${args[0]}`);
+  chunks.forEach((chunk) => {
+    const title = typeof chunk.titleGuess === "string" ? ` ${chunk.titleGuess}` : "";
+    print(`  lines ${String(chunk.startLine)}-${String(chunk.endLine)}${title} (confidence ${String(chunk.confidence)})`);
+  });
+  return exitCodes.ok;
+};
+
+const runValidate = async (context: CommandContext, args: string[]): Promise<number> => {
+  const { session, options, print, report } = context;
+  if (args.length === 0) {
+    report("Usage: soustack-mcp-ingest validate <file.json>...");
+    return exitCodes.usage;
+  }
+
+  const results: Array<{ file: string; ok: boolean; errors: string[] }> = [];
+  let exitCode: number = exitCodes.ok;
+  for (const file of args) {
+    const text = await readText(context, file);
+    if (text === null) {
+      return exitCodes.usage;
+    }
+
+    let recipe: unknown;
+    try {
+      recipe = JSON.parse(text);
+    } catch (error) {
+      report(`Could not parse "${file}": ${describeError(error)}`);
+      return exitCodes.usage;
+    }
+
+    const response = await session.call(`validate-${results.length + 1}`, "ingest.validate", { recipe });
+    if (!response.ok && response.error.code !== "validation_failed") {
+      reportFailure(context, response);
+      return exitCodeFor(response);
+    }
+
+    const errors = response.ok ? [] : ((response.error.details?.errors as string[] | undefined) ?? []);
+    results.push({ file, ok: response.ok, errors });
+    exitCode = Math.max(exitCode, exitCodeFor(response));
+  }
+
+  if (options.json) {
+    printJson(context, results);
+    return exitCode;
+  }
+
+  results.forEach(({ file, ok, errors }) => {
+    print(ok ? `${file}: valid` : `${file}: ${plural(errors.length, "error")}`);
+    errors.forEach((error) => print(`  ${error}`));
+  });
+  return exitCode;
+};
+
+const runReplay = async (context: CommandContext, args: string[]): Promise<number> => {
+  const { session, options, print, report } = context;
+  if (args.length !== 1) {
+    report("Usage: soustack-mcp-ingest replay <transcript.jsonl>");
+    return exitCodes.usage;
+  }
+
+  let entries: TranscriptEntry[];
+  try {
+    entries = await readTranscript(args[0]);
+  } catch (error) {
+    report(`Could not read transcript "${args[0]}": ${describeError(error)}`);
+    return exitCodes.usage;
+  }
+
+  const results = await replayTranscript(entries, session.call);
+  const mismatched = results.filter((result) => !result.ok);
+  const exitCode = mismatched.length === 0 ? exitCodes.ok : exitCodes.mismatch;
+
+  if (options.json) {
+    printJson(context, results);
+    return exitCode;
+  }
+
+  results.forEach(({ id, tool, ok, differences }) => {
+    print(`${ok ? "match" : "differs"} ${id} ${tool}`);
+    differences.forEach((difference) => print(`  ${difference}`));
+  });
+  print(`${results.length - mismatched.length} of ${plural(results.length, "response")} matched`);
+  return exitCode;
+};
+
+const commands: Record<CommandName, (context: CommandContext, args: string[]) => Promise<number>> = {
+  ingest: runIngest,
+  segment: runSegment,
+  validate: runValidate,
+  replay: runReplay
+};
+
+export const runCommand = async (name: CommandName, args: string[], options: CommandOptions): Promise<number> => {
+  const scheduler = createScheduler({ concurrency: options.concurrency, maxQueue: options.maxQueue }, {});
+  const session = createSession({
+    protocol: "auto",
+    timeouts: options.timeouts,
+    stats: scheduler.stats,
+    negotiate: false,
+    tools: options.tools,
+    middleware: options.middleware,
+    ...configuredSessionOptions(options)
+  });
+
+  return await commands[name](
+    {
+      session,
+      options,
+      print: (line) => options.stdout.write(`${line}\n`),
+      report: (line) => options.stderr.write(`${line}\n`)
+    },
+    args
+  );
+};
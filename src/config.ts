@@ -0,0 +1,212 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { logLevels } from "./logger.js";
+import type { LogLevel } from "./logger.js";
+import { parseBackendProfiles, resolveModuleSpecifier } from "./modules.js";
+import type { BackendProfile } from "./modules.js";
+import type { ProtocolMode } from "./protocol.js";
+import { serverConfigSchema, validateSchema } from "./schemas.js";
+
+export type ModulePaths = {
+  ingest?: string;
+  validator?: string;
+};
+
+export type ToolDefaults = {
+  outDir?: string;
+  options?: Record<string, unknown>;
+};
+
+export type ServerConfig = {
+  modules?: ModulePaths;
+  defaults?: ToolDefaults;
+  allowedRoots?: string[];
+  timeouts?: Record<string, number>;
+  concurrency?: number;
+  maxQueue?: number;
+  ordered?: boolean;
+  shutdownTimeout?: number;
+  protocol?: ProtocolMode;
+  legacyErrors?: boolean;
+  logLevel?: LogLevel;
+  backends?: Record<string, BackendProfile>;
+  defaultBackend?: string;
+  plugins?: string[];
+};
+
+export type ConfigSnapshot = {
+  file: string | null;
+  config: ServerConfig;
+};
+
+export type ConfigServerOptions = Omit<ServerConfig, "shutdownTimeout" | "plugins"> & {
+  shutdownDeadlineMs?: number;
+};
+
+export type LoadConfigOptions = {
+  file?: string;
+  discover?: boolean;
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+  flags?: ServerConfig;
+};
+
+export const configFileName = "soustack-mcp.json";
+
+const readText = async (file: string): Promise<string | null> => {
+  try {
+    return await readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+const compact = <T extends Record<string, unknown>>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+const isRepositoryRoot = async (directory: string): Promise<boolean> =>
+  await stat(path.join(directory, ".git")).then(
+    () => true,
+    () => false
+  );
+
+const searchDirectories = async (directory: string): Promise<string[]> => {
+  const directories = [path.resolve(directory)];
+  for (;;) {
+    const current = directories[directories.length - 1];
+    if (await isRepositoryRoot(current)) {
+      return directories;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return directories.slice(0, 1);
+    }
+    directories.push(parent);
+  }
+};
+
+export const findConfigFile = async (directory: string): Promise<string | null> => {
+  for (const current of await searchDirectories(directory)) {
+    const candidate = path.join(current, configFileName);
+    if ((await readText(candidate)) !== null) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export const resolveConfigPaths = (config: ServerConfig, baseDirectory: string): ServerConfig => {
+  const { modules, defaults, allowedRoots, backends, plugins } = config;
+  return compact({
+    ...config,
+    modules: modules
+      ? compact({
+          ingest: modules.ingest && resolveModuleSpecifier(modules.ingest, baseDirectory),
+          validator: modules.validator && resolveModuleSpecifier(modules.validator, baseDirectory)
+        })
+      : undefined,
+    defaults: defaults
+      ? compact({ ...defaults, outDir: defaults.outDir && path.resolve(baseDirectory, defaults.outDir) })
+      : undefined,
+    allowedRoots: allowedRoots?.map((root) => path.resolve(baseDirectory, root)),
+    backends: backends ? parseBackendProfiles(backends, baseDirectory) : undefined,
+    plugins: plugins?.map((plugin) => (plugin.startsWith(".") ? path.resolve(baseDirectory, plugin) : plugin))
+  });
+};
+
+export const readConfigFile = async (file: string): Promise<ServerConfig> => {
+  const content = await readText(file);
+  if (content === null) {
+    throw new Error(`Config file "${file}" could not be read.`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Config file "${file}" is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const issues = validateSchema(serverConfigSchema, parsed);
+  if (issues.length > 0) {
+    throw new Error(`Config file "${file}" is invalid: ${issues.map((issue) => issue.message).join(" ")}`);
+  }
+
+  return resolveConfigPaths(parsed as ServerConfig, path.dirname(path.resolve(file)));
+};
+
+export const envConfig = (env: Record<string, string | undefined>): ServerConfig => {
+  const ingest = env.SOUSTACK_INGEST_MODULE;
+  const validator = env.SOUSTACK_VALIDATOR_MODULE ?? env.SOUSTACK_MODULE;
+  const logLevel = (logLevels as readonly string[]).includes(env.SOUSTACK_MCP_LOG_LEVEL ?? "")
+    ? (env.SOUSTACK_MCP_LOG_LEVEL as LogLevel)
+    : undefined;
+
+  return compact({
+    modules: ingest || validator ? compact({ ingest, validator }) : undefined,
+    logLevel
+  });
+};
+
+export const mergeConfig = (...layers: ServerConfig[]): ServerConfig =>
+  layers.reduce<ServerConfig>(
+    (merged, layer) =>
+      compact({
+        ...merged,
+        ...layer,
+        modules: merged.modules || layer.modules ? { ...merged.modules, ...layer.modules } : undefined,
+        defaults:
+          merged.defaults || layer.defaults
+            ? compact({
+                ...merged.defaults,
+                ...layer.defaults,
+                options:
+                  merged.defaults?.options || layer.defaults?.options
+                    ? { ...merged.defaults?.options, ...layer.defaults?.options }
+                    : undefined
+              })
+            : undefined,
+        timeouts: merged.timeouts || layer.timeouts ? { ...merged.timeouts, ...layer.timeouts } : undefined,
+        backends: merged.backends || layer.backends ? { ...merged.backends, ...layer.backends } : undefined
+      }),
+    {}
+  );
+
+export const loadConfig = async ({
+  file,
+  discover = true,
+  cwd = process.cwd(),
+  env = process.env,
+  flags = {}
+}: LoadConfigOptions = {}): Promise<ConfigSnapshot> => {
+  const configFile = file ? path.resolve(cwd, file) : discover ? await findConfigFile(cwd) : null;
+  const fileConfig = configFile ? await readConfigFile(configFile) : {};
+  const config = mergeConfig(fileConfig, envConfig(env), flags);
+
+  if (config.defaultBackend !== undefined && !Object.hasOwn(config.backends ?? {}, config.defaultBackend)) {
+    throw new Error(`Default backend "${config.defaultBackend}" is not configured.`);
+  }
+
+  return { file: configFile, config };
+};
+
+export const serverOptionsFromConfig = ({ shutdownTimeout, plugins, ...config }: ServerConfig): ConfigServerOptions =>
+  compact({ ...config, shutdownDeadlineMs: shutdownTimeout });
+
+export const configFromServerOptions = (options: ConfigServerOptions): ServerConfig =>
+  compact({
+    modules: options.modules,
+    defaults: options.defaults,
+    allowedRoots: options.allowedRoots,
+    timeouts: options.timeouts,
+    concurrency: options.concurrency,
+    maxQueue: options.maxQueue,
+    ordered: options.ordered,
+    shutdownTimeout: options.shutdownDeadlineMs,
+    protocol: options.protocol,
+    legacyErrors: options.legacyErrors,
+    logLevel: options.logLevel,
+    backends: options.backends,
+    defaultBackend: options.defaultBackend
+  });
@@ -0,0 +1,85 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { createMemoryClient } from "./client.js";
+import type { MemoryClient } from "./client.js";
+import { runCommand } from "./commands.js";
+import type { CommandName, CommandOptions } from "./commands.js";
+import { startHttpServer } from "./http.js";
+import type { HttpServerHandle, HttpServerOptions } from "./http.js";
+import type { ToolHandler, ToolMiddleware, ToolRegistration, ToolSchema } from "./registry.js";
+import { startServer } from "./server.js";
+import type { ServerHandle, ServerOptions } from "./server.js";
+import { startSocketServer } from "./socket.js";
+import type { SocketServerHandle, SocketServerOptions } from "./socket.js";
+
+export type ServerPlugin = (server: ServerBuilder) => void | Promise<void>;
+
+export type ServerBuilder = {
+  registerTool: (name: string, schema: ToolSchema, handler: ToolHandler) => ServerBuilder;
+  use: (middleware: ToolMiddleware) => ServerBuilder;
+  plugin: (plugin: ServerPlugin | string) => Promise<ServerBuilder>;
+  start: (options: ServerOptions) => ServerHandle;
+  startHttp: (options?: HttpServerOptions) => Promise<HttpServerHandle>;
+  startSocket: (options?: SocketServerOptions) => Promise<SocketServerHandle>;
+  run: (command: CommandName, args: string[], options: CommandOptions) => Promise<number>;
+  connect: (options?: Omit<ServerOptions, "input" | "output">) => MemoryClient;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const resolvePluginSpecifier = (specifier: string): string =>
+  specifier.startsWith(".") || path.isAbsolute(specifier) ? pathToFileURL(path.resolve(specifier)).href : specifier;
+
+export const loadPlugin = async (specifier: string): Promise<ServerPlugin> => {
+  const pluginModule = (await import(resolvePluginSpecifier(specifier))) as Record<string, unknown>;
+  const defaultExport = pluginModule.default;
+  const candidates = [pluginModule.register, defaultExport, isRecord(defaultExport) ? defaultExport.register : undefined];
+
+  const plugin = candidates.find((candidate) => typeof candidate === "function");
+  if (!plugin) {
+    throw new Error(`Plugin \"${specifier}\" does not export a register function.`);
+  }
+
+  return plugin as ServerPlugin;
+};
+
+export const createServer = (): ServerBuilder => {
+  const tools: Record<string, ToolRegistration> = {};
+  const middleware: ToolMiddleware[] = [];
+
+  const withRegistrations = <T extends { tools?: Record<string, ToolRegistration>; middleware?: ToolMiddleware[] }>(
+    options: T
+  ): T => ({
+    ...options,
+    tools: { ...options.tools, ...tools },
+    middleware: [...middleware, ...(options.middleware ?? [])]
+  });
+
+  const builder: ServerBuilder = {
+    registerTool: (name, schema, handler) => {
+      if (Object.hasOwn(tools, name)) {
+        throw new Error(`Tool \"${name}\" is already registered.`);
+      }
+
+      tools[name] = { ...schema, handler };
+      return builder;
+    },
+    use: (entry) => {
+      middleware.push(entry);
+      return builder;
+    },
+    plugin: async (plugin) => {
+      const register = typeof plugin === "string" ? await loadPlugin(plugin) : plugin;
+      await register(builder);
+      return builder;
+    },
+    start: (options) => startServer(withRegistrations(options)),
+    startHttp: (options = {}) => startHttpServer(withRegistrations(options)),
+    startSocket: (options = {}) => startSocketServer(withRegistrations(options)),
+    run: (command, args, options) => runCommand(command, args, withRegistrations(options)),
+    connect: (options = {}) => createMemoryClient(withRegistrations(options))
+  };
+
+  return builder;
+};
@@ -0,0 +1,75 @@
+import type { ErrorDetails } from "./protocol.js";
+import type { SchemaIssue } from "./schemas.js";
+
+export const toolErrorCodes = [
+  "invalid_input",
+  "module_unavailable",
+  "stage_missing",
+  "stage_failed",
+  "validation_failed",
+  "path_not_allowed"
+] as const;
+
+export type ToolErrorCode = (typeof toolErrorCodes)[number];
+
+export class ToolError extends Error {
+  readonly code: ToolErrorCode | (string & {});
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ToolErrorCode | (string & {}), message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export const invalidInput = (issues: SchemaIssue[]): ToolError =>
+  new ToolError("invalid_input", issues.map((issue) => issue.message).join(" "), { issues });
+
+export const moduleUnavailable = (module: string, error: unknown): ToolError =>
+  new ToolError("module_unavailable", `Module "${module}" could not be loaded.`, {
+    module,
+    error: describeError(error)
+  });
+
+export const stageMissing = (module: string, stage: string): ToolError =>
+  new ToolError("stage_missing", `Module "${module}" does not expose a ${stage} stage.`, { module, stage });
+
+export const stageFailed = (stage: string, error: unknown, errors?: string[]): ToolError =>
+  new ToolError("stage_failed", `The ${stage} stage failed: ${describeError(error)}`, {
+    stage,
+    error: describeError(error),
+    ...(errors ? { errors } : {})
+  });
+
+export const validationFailed = (errors: string[], extra: Record<string, unknown> = {}): ToolError =>
+  new ToolError(
+    "validation_failed",
+    `Recipe validation failed with ${errors.length} error${errors.length === 1 ? "" : "s"}.`,
+    { errors, ...extra }
+  );
+
+export const pathNotAllowed = (pointer: string, path: string, allowedRoots: string[]): ToolError =>
+  new ToolError("path_not_allowed", `Path "${path}" is outside the allowed roots.`, { pointer, path, allowedRoots });
+
+export const toErrorDetails = (error: ToolError): ErrorDetails => ({
+  code: error.code,
+  message: error.message,
+  details: error.details
+});
+
+export const legacyErrorList = (error: ToolError): string[] => {
+  const { issues, errors } = error.details;
+  if (Array.isArray(issues)) {
+    return (issues as SchemaIssue[]).map((issue) => issue.message);
+  }
+
+  if (Array.isArray(errors) && errors.length > 0) {
+    return errors.map((entry) => String(entry));
+  }
+
+  return [typeof error.details.error === "string" ? error.details.error : error.message];
+};
@@ -0,0 +1,304 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ConfigSnapshot, ModulePaths, ToolDefaults } from "./config.js";
+import type { LogLevel, Logger } from "./logger.js";
+import type { BackendProfile } from "./modules.js";
+import type { ErrorResponse } from "./protocol.js";
+import type { ToolMiddleware, ToolRegistration } from "./registry.js";
+import { createScheduler } from "./scheduler.js";
+import type { SchedulerOptions } from "./scheduler.js";
+import { configuredSessionOptions, createSession } from "./server.js";
+import type { ShutdownOptions, ShutdownReport } from "./server.js";
+
+export type HttpServerOptions = {
+  port?: number;
+  host?: string;
+  token?: string | string[];
+  timeouts?: Record<string, number>;
+  maxBodyBytes?: number;
+  shutdownDeadlineMs?: number;
+  legacyErrors?: boolean;
+  tools?: Record<string, ToolRegistration>;
+  middleware?: ToolMiddleware[];
+  backends?: Record<string, BackendProfile>;
+  defaultBackend?: string;
+  modules?: ModulePaths;
+  defaults?: ToolDefaults;
+  allowedRoots?: string[];
+  logLevel?: LogLevel;
+  logger?: Logger;
+  config?: ConfigSnapshot;
+  record?: NodeJS.WritableStream;
+} & Omit<SchedulerOptions, "ordered">;
+
+export type HttpServerHandle = {
+  url: string;
+  port: number;
+  close: (options?: ShutdownOptions) => Promise<ShutdownReport>;
+};
+
+const defaultHost = "127.0.0.1";
+const defaultMaxBodyBytes = 16 * 1024 * 1024;
+
+const sseHeaders = {
+  "content-type": "text/event-stream",
+  "cache-control": "no-cache",
+  connection: "keep-alive"
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const buildHttpError = (code: string, message: string): ErrorResponse => ({
+  id: null,
+  ok: false,
+  error: { code, message }
+});
+
+const sendJson = (
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void => {
+  const payload = JSON.stringify(body);
+  response.writeHead(status, {
+    "content-type": "application/json",
+    "content-length": Buffer.byteLength(payload),
+    ...headers
+  });
+  response.end(payload);
+};
+
+const writeEvent = (response: ServerResponse, event: string, data: unknown): void => {
+  if (!response.writableEnded) {
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+};
+
+const eventName = (message: unknown): string =>
+  isRecord(message) && message.event === "progress" ? "progress" : "notification";
+
+const readBody = async (request: IncomingMessage, limit: number): Promise<string | null> =>
+  await new Promise<string | null>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        chunks.length = 0;
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+
+const headerValue = (value: string | string[] | undefined): string =>
+  Array.isArray(value) ? value.join(",") : value ?? "";
+
+const digest = (value: string): Buffer => createHash("sha256").update(value).digest();
+
+export const startHttpServer = async (options: HttpServerOptions = {}): Promise<HttpServerHandle> => {
+  const {
+    port = 0,
+    host = defaultHost,
+    token,
+    timeouts,
+    maxBodyBytes = defaultMaxBodyBytes,
+    shutdownDeadlineMs,
+    legacyErrors,
+    tools,
+    middleware,
+    concurrency,
+    maxQueue
+  } = options;
+  const scheduler = createScheduler({ concurrency, maxQueue }, {});
+  let closing: Promise<ShutdownReport> | undefined;
+  const tokens = (token === undefined ? [] : [token].flat()).filter(Boolean);
+  const credentials = tokens.map((value) => digest(`Bearer ${value}`));
+  const sessions = (tokens.length > 0 ? tokens : [""]).map(() =>
+    createSession({
+      protocol: "auto",
+      timeouts,
+      stats: scheduler.stats,
+      legacyErrors,
+      negotiate: false,
+      tools,
+      middleware,
+      ...configuredSessionOptions(options),
+      onShutdown: () => {
+        void close();
+      }
+    })
+  );
+  const subscribers = new Map<ServerResponse, number>();
+  const pending = new Set<Promise<void>>();
+
+  const broadcast = (caller: number, message: unknown): void => {
+    subscribers.forEach((subscribed, subscriber) => {
+      if (subscribed === caller) {
+        writeEvent(subscriber, eventName(message), message);
+      }
+    });
+  };
+
+  const callerOf = (request: IncomingMessage): number | null => {
+    if (credentials.length === 0) {
+      return 0;
+    }
+    const presented = digest(headerValue(request.headers.authorization));
+    const caller = credentials.findIndex((credential) => timingSafeEqual(credential, presented));
+    return caller < 0 ? null : caller;
+  };
+
+  const handlePost = async (caller: number, request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const body = await readBody(request, maxBodyBytes);
+    if (body === null) {
+      sendJson(response, 413, buildHttpError("payload_too_large", `Request body exceeds ${maxBodyBytes} bytes.`), {
+        connection: "close"
+      });
+      return;
+    }
+
+    const streaming = headerValue(request.headers.accept).includes("text/event-stream");
+    const notify = (message: unknown): void => {
+      if (streaming) {
+        writeEvent(response, eventName(message), message);
+      }
+      broadcast(caller, message);
+    };
+
+    const plan = sessions[caller].plan(body, { notify, progress: streaming });
+    if (!plan) {
+      sendJson(response, 400, buildHttpError("invalid_request", "Request body was empty."));
+      return;
+    }
+
+    if (streaming) {
+      response.writeHead(200, sseHeaders);
+    }
+
+    const message = await new Promise<unknown>((resolve, reject) => {
+      scheduler.submit(
+        async () => {
+          try {
+            resolve(await plan.run());
+          } catch (error) {
+            reject(error);
+          }
+          return null;
+        },
+        { queued: plan.queued }
+      );
+    });
+
+    if (streaming) {
+      if (message !== null) {
+        writeEvent(response, "response", message);
+      }
+      response.end();
+      return;
+    }
+
+    if (message === null) {
+      response.writeHead(202);
+      response.end();
+      return;
+    }
+
+    const failed = isRecord(message) && message.ok === false && message.id === null;
+    sendJson(response, failed ? 400 : 200, message);
+  };
+
+  const handleEvents = (caller: number, response: ServerResponse): void => {
+    response.writeHead(200, sseHeaders);
+    response.write(": connected\n\n");
+    subscribers.set(response, caller);
+    response.on("close", () => subscribers.delete(response));
+  };
+
+  const server = createServer((request, response) => {
+    const path = (request.url ?? "/").split("?")[0];
+
+    const caller = callerOf(request);
+    if (caller === null) {
+      sendJson(response, 401, buildHttpError("unauthorized", "A valid bearer token is required."));
+      return;
+    }
+
+    if (path === "/events") {
+      if (request.method !== "GET") {
+        sendJson(response, 405, buildHttpError("method_not_allowed", "Use GET to subscribe to events."));
+        return;
+      }
+      handleEvents(caller, response);
+      return;
+    }
+
+    if (path !== "/" && path !== "/rpc") {
+      sendJson(response, 404, buildHttpError("not_found", `No route for ${path}.`));
+      return;
+    }
+
+    if (request.method !== "POST") {
+      sendJson(response, 405, buildHttpError("method_not_allowed", "Use POST to send requests."));
+      return;
+    }
+
+    const handled = handlePost(caller, request, response).catch((error) => {
+      if (!response.headersSent) {
+        sendJson(
+          response,
+          500,
+          buildHttpError("internal_error", error instanceof Error ? error.message : String(error))
+        );
+      } else {
+        response.end();
+      }
+    });
+    pending.add(handled);
+    handled.finally(() => pending.delete(handled));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const close = ({ deadlineMs = shutdownDeadlineMs }: ShutdownOptions = {}): Promise<ShutdownReport> => {
+    closing ??= (async () => {
+      const closed = new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+      const reports = await Promise.all(sessions.map((session) => session.drain({ deadlineMs })));
+      await Promise.allSettled([...pending]);
+      subscribers.forEach((_caller, subscriber) => subscriber.end());
+      subscribers.clear();
+      server.closeIdleConnections();
+      await closed;
+      return reports.reduce(
+        (total, report) => ({
+          finished: total.finished + report.finished,
+          abandoned: total.abandoned + report.abandoned
+        }),
+        { finished: 0, abandoned: 0 }
+      );
+    })();
+
+    return closing;
+  };
+
+  const address = server.address();
+  const boundPort = isRecord(address) ? Number(address.port) : port;
+
+  return {
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${boundPort}`,
+    port: boundPort,
+    close
+  };
+};
@@ -0,0 +1,53 @@
+export { createClient, createMemoryClient } from "./client.js";
+export type { Client, ClientCall, ClientMessage, ClientOptions, ClientRequestOptions, MemoryClient } from "./client.js";
+export type { CommandName, CommandOptions } from "./commands.js";
+export { configFileName, loadConfig } from "./config.js";
+export type { ConfigSnapshot, ModulePaths, ServerConfig, ToolDefaults } from "./config.js";
+export { createServer, loadPlugin } from "./embed.js";
+export type { ServerBuilder, ServerPlugin } from "./embed.js";
+export { ToolError, toolErrorCodes } from "./errors.js";
+export type { ToolErrorCode } from "./errors.js";
+export { startHttpServer } from "./http.js";
+export type { HttpServerHandle, HttpServerOptions } from "./http.js";
+export { createLogger } from "./logger.js";
+export type { LogLevel, Logger } from "./logger.js";
+export type { BackendProfile } from "./modules.js";
+export type {
+  ToolBackend,
+  ToolCall,
+  ToolContext,
+  ToolHandler,
+  ToolMiddleware,
+  ToolRegistration,
+  ToolSchema
+} from "./registry.js";
+export type { JsonSchema, SchemaIssue } from "./schemas.js";
+export { startServer } from "./server.js";
+export type {
+  ExtractChunk,
+  ExtractOptions,
+  IngestDocumentFile,
+  IngestDocumentInput,
+  IngestDocumentOptions,
+  IngestDocumentOutput,
+  IntermediateRecipe,
+  IntermediateRecipeInput,
+  PipelineChunkRecord,
+  PipelineChunkStage,
+  PipelineOptions,
+  PipelineOutput,
+  PipelineStageRecord,
+  SegmentChunk,
+  SegmentOptions,
+  SegmentOutput,
+  ServerHandle,
+  ServerOptions,
+  ShutdownOptions,
+  ShutdownReport,
+  ToSoustackOptions,
+  ToSoustackOutput,
+  ValidationResult
+} from "./server.js";
+export { startSocketServer } from "./socket.js";
+export type { SocketServerHandle, SocketServerOptions } from "./socket.js";
+export type { SkippedEntry, SymlinkPolicy } from "./walk.js";
@@ -0,0 +1,204 @@
+import type {
+  JsonRpcErrorObject,
+  JsonRpcFailure,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+  JsonRpcSuccess,
+  ProgressEvent,
+  Response
+} from "./protocol.js";
+import type { JsonSchema } from "./schemas.js";
+
+export type JsonRpcToolDescriptor = {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+};
+
+export type JsonRpcServerInfo = {
+  name: string;
+  version: string;
+};
+
+export type ToolCallOptions = {
+  onProgress?: (event: ProgressEvent) => void;
+  timeoutMs?: number;
+};
+
+export type JsonRpcHandlerOptions = {
+  serverInfo: () => Promise<JsonRpcServerInfo> | JsonRpcServerInfo;
+  listTools: () => JsonRpcToolDescriptor[];
+  callTool: (id: string, name: string, args: Record<string, unknown>, options?: ToolCallOptions) => Promise<Response>;
+  cancel: (id: string) => boolean;
+  notify: (message: JsonRpcNotification) => void;
+};
+
+export const jsonRpcErrorCodes = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  requestCancelled: -32800
+} as const;
+
+const supportedMcpVersions = ["2024-11-05", "2025-03-26", "2025-06-18"] as const;
+const latestMcpVersion = supportedMcpVersions[supportedMcpVersions.length - 1];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isJsonRpcId = (value: unknown): value is JsonRpcId =>
+  typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+
+export const isJsonRpcMessage = (value: unknown): boolean => isRecord(value) && value.jsonrpc === "2.0";
+
+const isJsonRpcRequest = (value: unknown): value is JsonRpcRequest =>
+  isJsonRpcMessage(value) &&
+  typeof (value as Record<string, unknown>).method === "string" &&
+  ((value as Record<string, unknown>).params === undefined || isRecord((value as Record<string, unknown>).params));
+
+export const buildJsonRpcSuccess = (id: JsonRpcId, result: Record<string, unknown>): JsonRpcSuccess => ({
+  jsonrpc: "2.0",
+  id,
+  result
+});
+
+export const buildJsonRpcError = (id: JsonRpcId | null, error: JsonRpcErrorObject): JsonRpcFailure => ({
+  jsonrpc: "2.0",
+  id,
+  error
+});
+
+const negotiateMcpVersion = (requested: unknown): string =>
+  typeof requested === "string" && (supportedMcpVersions as readonly string[]).includes(requested)
+    ? requested
+    : latestMcpVersion;
+
+const buildToolCallResult = (response: Response): Record<string, unknown> => {
+  if (response.ok) {
+    return {
+      content: [{ type: "text", text: JSON.stringify(response.output) }],
+      structuredContent: response.output,
+      isError: false
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: response.error.message }],
+    structuredContent: { error: response.error },
+    isError: true
+  };
+};
+
+const handleToolCall = async (
+  id: JsonRpcId,
+  params: Record<string, unknown>,
+  options: JsonRpcHandlerOptions
+): Promise<JsonRpcResponse> => {
+  if (typeof params.name !== "string" || !params.name) {
+    return buildJsonRpcError(id, {
+      code: jsonRpcErrorCodes.invalidParams,
+      message: "params.name must be a non-empty string."
+    });
+  }
+
+  if (params.arguments !== undefined && !isRecord(params.arguments)) {
+    return buildJsonRpcError(id, {
+      code: jsonRpcErrorCodes.invalidParams,
+      message: "params.arguments must be an object when provided."
+    });
+  }
+
+  const meta = isRecord(params._meta) ? params._meta : {};
+  const progressToken = meta.progressToken;
+  const timeoutMs = typeof meta.timeoutMs === "number" && meta.timeoutMs >= 0 ? meta.timeoutMs : undefined;
+  let progressCount = 0;
+  const onProgress = isJsonRpcId(progressToken)
+    ? (event: ProgressEvent) => {
+        progressCount += 1;
+        options.notify({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: progressCount,
+            message: event.type,
+            _meta: { event }
+          }
+        });
+      }
+    : undefined;
+
+  const response = await options.callTool(String(id), params.name, params.arguments ?? {}, { onProgress, timeoutMs });
+  if (!response.ok && response.error.code === "cancelled") {
+    return buildJsonRpcError(id, {
+      code: jsonRpcErrorCodes.requestCancelled,
+      message: response.error.message,
+      data: { code: response.error.code }
+    });
+  }
+
+  if (!response.ok && response.error.code === "tool_not_found") {
+    return buildJsonRpcError(id, {
+      code: jsonRpcErrorCodes.invalidParams,
+      message: response.error.message
+    });
+  }
+
+  return buildJsonRpcSuccess(id, buildToolCallResult(response));
+};
+
+export const handleJsonRpcMessage = async (
+  message: unknown,
+  options: JsonRpcHandlerOptions
+): Promise<JsonRpcResponse | null> => {
+  if (!isJsonRpcRequest(message)) {
+    const id = isRecord(message) && isJsonRpcId(message.id) ? message.id : null;
+    return buildJsonRpcError(id, {
+      code: jsonRpcErrorCodes.invalidRequest,
+      message: "Request did not match the JSON-RPC 2.0 shape."
+    });
+  }
+
+  const params = message.params ?? {};
+
+  if (message.id === undefined) {
+    if (message.method === "notifications/cancelled" && isJsonRpcId(params.requestId)) {
+      options.cancel(String(params.requestId));
+    }
+    return null;
+  }
+
+  if (!isJsonRpcId(message.id)) {
+    return buildJsonRpcError(null, {
+      code: jsonRpcErrorCodes.invalidRequest,
+      message: "id must be a string or a number."
+    });
+  }
+
+  const id = message.id;
+
+  switch (message.method) {
+    case "initialize":
+      return buildJsonRpcSuccess(id, {
+        protocolVersion: negotiateMcpVersion(params.protocolVersion),
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: await options.serverInfo()
+      });
+    case "ping":
+      return buildJsonRpcSuccess(id, {});
+    case "tools/list":
+      return buildJsonRpcSuccess(id, { tools: options.listTools() });
+    case "tools/call":
+      return await handleToolCall(id, params, options);
+    default:
+      return buildJsonRpcError(id, {
+        code: jsonRpcErrorCodes.methodNotFound,
+        message: `Method \"${message.method}\" is not available.`
+      });
+  }
+};
@@ -0,0 +1,33 @@
+export const logLevels = ["error", "warn", "info", "debug"] as const;
+
+export type LogLevel = (typeof logLevels)[number];
+
+export type Logger = Record<LogLevel, (message: string, fields?: Record<string, unknown>) => void>;
+
+export const silentLogger: Logger = {
+  error: () => undefined,
+  warn: () => undefined,
+  info: () => undefined,
+  debug: () => undefined
+};
+
+export const createLogger = (level: LogLevel, output: NodeJS.WritableStream = process.stderr): Logger => {
+  const threshold = logLevels.indexOf(level);
+  const write =
+    (entryLevel: LogLevel) =>
+    (message: string, fields?: Record<string, unknown>): void => {
+      if (logLevels.indexOf(entryLevel) > threshold) {
+        return;
+      }
+
+      const suffix = fields && Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : "";
+      output.write(`soustack-mcp-ingest ${entryLevel}: ${message}${suffix}\n`);
+    };
+
+  return {
+    error: write("error"),
+    warn: write("warn"),
+    info: write("info"),
+    debug: write("debug")
+  };
+};
@@ -0,0 +1,278 @@
+export type MarkdownHeading = {
+  line: number;
+  level: number;
+  text: string;
+};
+
+export type MarkdownChunk = {
+  startLine: number;
+  endLine: number;
+  titleGuess?: string;
+  confidence: number;
+  evidence?: string;
+};
+
+export type MarkdownDocument = {
+  text: string;
+  headings: MarkdownHeading[];
+  frontMatter: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+};
+
+const frontMatterFence = /^---\s*$/;
+const frontMatterEnd = /^(---|\.\.\.)\s*$/;
+const codeFence = /^\s*(```|~~~)/;
+const atxHeading = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const setextUnderline = /^\s{0,3}(=+|-+)\s*$/;
+const listItem = /^\s*(?:([-*+])|(\d+)[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const thematicBreak = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const tableRule = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const sectionHeading =
+  /^(ingredients?|instructions?|directions?|method|steps?|preparation|prep|notes?|equipment|to serve|serving|for the .+)\b/i;
+
+const metadataAliases: Record<string, string> = {
+  tags: "tags",
+  tag: "tags",
+  keywords: "tags",
+  categories: "tags",
+  category: "tags",
+  servings: "servings",
+  serves: "servings",
+  yield: "servings",
+  source: "sourceUrl",
+  source_url: "sourceUrl",
+  sourceurl: "sourceUrl",
+  url: "sourceUrl",
+  link: "sourceUrl"
+};
+
+export const isMarkdownPath = (file: string): boolean => /\.(md|markdown)$/i.test(file);
+
+const parseScalar = (value: string): unknown => {
+  const trimmed = value.replace(/\s+#.*$/, "").trim();
+  if (/^".*"$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/\\"/g, '"');
+  }
+  if (/^'.*'$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^\[.*\]$/.test(trimmed)) {
+    return trimmed
+      .slice(1, -1)
+      .split(",")
+      .map((entry) => parseScalar(entry))
+      .filter((entry) => entry !== "");
+  }
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  if (/^(true|false)$/i.test(trimmed)) {
+    return trimmed.toLowerCase() === "true";
+  }
+  if (/^(null|~)$/.test(trimmed)) {
+    return null;
+  }
+  return trimmed;
+};
+
+export const parseFrontMatter = (lines: string[]): { fields: Record<string, unknown>; endLine: number } => {
+  if (!frontMatterFence.test(lines[0] ?? "")) {
+    return { fields: {}, endLine: 0 };
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && frontMatterEnd.test(line));
+  if (end < 0) {
+    return { fields: {}, endLine: 0 };
+  }
+
+  const fields: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  for (const line of lines.slice(1, end)) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (fields[listKey] as unknown[]).push(parseScalar(item[1]));
+      continue;
+    }
+
+    const pair = /^([A-Za-z0-9_-]+):\s*(.*)$/.exec(line);
+    if (!pair) {
+      continue;
+    }
+    listKey = pair[2].trim() ? null : pair[1];
+    fields[pair[1]] = listKey ? [] : parseScalar(pair[2]);
+  }
+
+  return { fields, endLine: end + 1 };
+};
+
+export const recipeMetadata = (frontMatter: Record<string, unknown>): Record<string, unknown> => {
+  const metadata: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(frontMatter)) {
+    const name = metadataAliases[key.toLowerCase()] ?? key;
+    if (name === "tags") {
+      const tags = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [value];
+      metadata.tags = [
+        ...((metadata.tags as string[] | undefined) ?? []),
+        ...tags.map((tag) => String(tag).trim()).filter(Boolean)
+      ];
+    } else if (!(name in metadata) && value !== null) {
+      metadata[name] = value;
+    }
+  }
+  return metadata;
+};
+
+export const stripInlineMarkdown = (text: string): string => {
+  const escaped: string[] = [];
+  return text
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, (_match, char: string) => {
+      escaped.push(char);
+      return `\u{e000}${escaped.length - 1}\u{e001}`;
+    })
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, "$1")
+    .replace(/<!--.*?-->/g, "")
+    .replace(/<\/?[A-Za-z][^>]*>/g, "")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, "$2")
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, "$1")
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/\s+$/, "")
+    .replace(/\u{e000}(\d+)\u{e001}/gu, (_match, index: string) => escaped[Number(index)]);
+};
+
+export const normalizeMarkdown = (source: string): MarkdownDocument => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const { fields, endLine } = parseFrontMatter(lines);
+  const output: string[] = [];
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (lineNumber <= endLine) {
+      output.push("");
+      return;
+    }
+
+    const fenceMatch = codeFence.exec(line);
+    if (fence !== null) {
+      fence = fenceMatch && line.trim().startsWith(fence) ? null : fence;
+      output.push(fence === null ? "" : line.trim());
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push("");
+      return;
+    }
+
+    const content = line.replace(/^\s*(>\s?)+/, "");
+    const heading = atxHeading.exec(content);
+    if (heading) {
+      const text = stripInlineMarkdown(heading[2]);
+      headings.push({ line: lineNumber, level: heading[1].length, text });
+      output.push(text);
+      return;
+    }
+
+    const previous = output[output.length - 1];
+    const underline = setextUnderline.exec(content);
+    if (underline && previous && !listItem.test(lines[index - 1]) && headings.at(-1)?.line !== lineNumber - 1) {
+      headings.push({ line: lineNumber - 1, level: underline[1].startsWith("=") ? 1 : 2, text: previous });
+      output.push("");
+      return;
+    }
+
+    if (thematicBreak.test(content) || tableRule.test(content)) {
+      output.push("");
+      return;
+    }
+
+    const item = listItem.exec(content);
+    if (item) {
+      const text = stripInlineMarkdown(item[3]).trim();
+      output.push(item[1] ? `- ${text}` : `${item[2]}. ${text}`);
+      return;
+    }
+
+    output.push(stripInlineMarkdown(content.replace(/^\s*\|(.*)\|\s*$/, "$1").replace(/\s*\|\s*/g, " | ")).trim());
+  });
+
+  return { text: output.join("\n"), headings, frontMatter: fields, metadata: recipeMetadata(fields) };
+};
+
+const recipeLevel = (headings: MarkdownHeading[]): number | null => {
+  const isSection = (heading: MarkdownHeading) => sectionHeading.test(heading.text);
+  const parents = headings.flatMap((heading, index) => {
+    if (!isSection(heading)) {
+      return [];
+    }
+    const parent = headings
+      .slice(0, index)
+      .reverse()
+      .find((candidate) => candidate.level < heading.level && !isSection(candidate));
+    return parent ? [parent.level] : [];
+  });
+
+  if (parents.length > 0) {
+    return Math.min(...parents);
+  }
+
+  const titles = headings.filter((heading) => !isSection(heading));
+  return titles.length > 0 ? Math.max(...titles.map((heading) => heading.level)) : null;
+};
+
+export const segmentMarkdown = (
+  document: MarkdownDocument,
+  options: { maxChunks?: number | null } = {}
+): MarkdownChunk[] => {
+  const lines = document.text.split("\n");
+  const lastContent = (from: number, to: number): number => {
+    let end = to;
+    while (end > from && !lines[end - 1].trim()) {
+      end -= 1;
+    }
+    return end;
+  };
+
+  const level = recipeLevel(document.headings);
+  let chunks: MarkdownChunk[];
+  if (level === null) {
+    const first = lines.findIndex((line) => line.trim()) + 1;
+    chunks =
+      first > 0
+        ? [
+            {
+              startLine: first,
+              endLine: lastContent(first, lines.length),
+              titleGuess: lines[first - 1].trim(),
+              confidence: 0.5,
+              evidence: lines[first - 1].trim()
+            }
+          ]
+        : [];
+  } else {
+    const boundaries = document.headings.filter((heading) => heading.level <= level);
+    chunks = boundaries.flatMap((heading, index) => {
+      if (heading.level !== level || sectionHeading.test(heading.text)) {
+        return [];
+      }
+      const next = boundaries[index + 1]?.line ?? lines.length + 1;
+      return [
+        {
+          startLine: heading.line,
+          endLine: lastContent(heading.line, next - 1),
+          titleGuess: heading.text,
+          confidence: 0.9,
+          evidence: `${"#".repeat(heading.level)} ${heading.text}`
+        }
+      ];
+    });
+  }
+
+  return typeof options.maxChunks === "number" ? chunks.slice(0, options.maxChunks) : chunks;
+};
@@ -0,0 +1,314 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { ToolError, moduleUnavailable, stageMissing } from "./errors.js";
+
+export type AdapterKind = "ingest" | "validator";
+
+export type StageFunction = (...args: never[]) => unknown;
+
+export type BackendProfile = {
+  ingest?: string;
+  validator?: string;
+  options?: Record<string, unknown>;
+};
+
+export type ModulePackage = {
+  name: string;
+  version: string | null;
+};
+
+export type ModuleAdapter = {
+  kind: AdapterKind;
+  module: string;
+  url: string;
+  generation: number;
+  loadedAt: string;
+  stages: Record<string, string | null>;
+  declares: Record<string, string[] | null>;
+  stage: <T extends StageFunction>(name: string) => T;
+};
+
+export type AvailableAdapter = Omit<ModuleAdapter, "kind" | "stage"> & {
+  available: true;
+  package: ModulePackage | null;
+};
+
+export type AdapterDiagnostics = AvailableAdapter | { module: string; available: false; error: string };
+
+const packageLabels: Record<AdapterKind, string> = {
+  ingest: "soustack-ingest",
+  validator: "soustack"
+};
+
+const stageCandidates: Record<AdapterKind, Record<string, string[]>> = {
+  ingest: {
+    ingest: [
+      "ingestDocument",
+      "ingest",
+      "runIngest",
+      "run",
+      "default",
+      "default.ingestDocument",
+      "default.ingest",
+      "default.runIngest",
+      "default.run"
+    ],
+    normalize: ["normalize", "normalizeText", "normalizeInput", "default.normalize", "default.normalizeText"],
+    segment: [
+      "segment",
+      "segmentText",
+      "segmentLines",
+      "default.segment",
+      "default.segmentText",
+      "default.stages.segment",
+      "stages.segment"
+    ],
+    extract: [
+      "extract",
+      "extractRecipe",
+      "extractChunk",
+      "default.extract",
+      "default.extractRecipe",
+      "default.extractChunk",
+      "default.stages.extract",
+      "stages.extract"
+    ],
+    toSoustack: ["toSoustack", "default.toSoustack", "default.stages.toSoustack", "stages.toSoustack"],
+    validate: ["validate", "default.validate", "default.stages.validate", "stages.validate"]
+  },
+  validator: {
+    validate: ["validateRecipe", "validate", "validateRecipePayload", "default.validateRecipe", "default.validate"]
+  }
+};
+
+const declarationCandidates: Record<AdapterKind, Record<string, string[]>> = {
+  ingest: {
+    inputKinds: [
+      "capabilities.inputKinds",
+      "default.capabilities.inputKinds",
+      "supportedInputKinds",
+      "default.supportedInputKinds"
+    ],
+    options: ["capabilities.options", "default.capabilities.options", "supportedOptions", "default.supportedOptions"]
+  },
+  validator: {}
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+export const resolveModuleSpecifier = (specifier: string, baseDirectory: string): string =>
+  specifier.startsWith(".") ? pathToFileURL(path.resolve(baseDirectory, specifier)).href : specifier;
+
+const resolveProfileModule = (specifier: unknown, field: string, baseDirectory: string): string | undefined => {
+  if (specifier === undefined) {
+    return undefined;
+  }
+
+  if (typeof specifier !== "string" || !specifier) {
+    throw new Error(`${field} must be a module specifier.`);
+  }
+
+  return resolveModuleSpecifier(specifier, baseDirectory);
+};
+
+export const parseBackendProfiles = (value: unknown, baseDirectory: string): Record<string, BackendProfile> => {
+  if (!isRecord(value)) {
+    throw new Error("backends must be an object of named profiles.");
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([name, profile]) => {
+      if (!isRecord(profile)) {
+        throw new Error(`backends.${name} must be an object.`);
+      }
+
+      if (profile.options !== undefined && !isRecord(profile.options)) {
+        throw new Error(`backends.${name}.options must be an object.`);
+      }
+
+      const parsed: BackendProfile = {
+        ingest: resolveProfileModule(profile.ingest, `backends.${name}.ingest`, baseDirectory),
+        validator: resolveProfileModule(profile.validator, `backends.${name}.validator`, baseDirectory),
+        options: profile.options
+      };
+      return [name, parsed];
+    })
+  );
+};
+
+const adapters = new Map<string, Promise<ModuleAdapter>>();
+let generation = 0;
+
+const resolveIngestModuleName = (): string => process.env.SOUSTACK_INGEST_MODULE ?? "soustack-ingest";
+
+const resolveSoustackModuleName = (): string =>
+  process.env.SOUSTACK_VALIDATOR_MODULE ?? process.env.SOUSTACK_MODULE ?? "soustack";
+
+const resolveModuleName = (kind: AdapterKind, profile: BackendProfile = {}): string =>
+  profile[kind] ?? (kind === "ingest" ? resolveIngestModuleName() : resolveSoustackModuleName());
+
+const resolveModuleUrl = (name: string): string => {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(name) && !path.isAbsolute(name)) {
+    return name;
+  }
+
+  if (name.startsWith(".")) {
+    return new URL(name, import.meta.url).href;
+  }
+
+  if (path.isAbsolute(name)) {
+    return pathToFileURL(name).href;
+  }
+
+  if (typeof import.meta.resolve === "function") {
+    return import.meta.resolve(name);
+  }
+
+  return pathToFileURL(createRequire(import.meta.url).resolve(name)).href;
+};
+
+const withGeneration = (url: string, value: number): string => {
+  if (value === 0 || !url.startsWith("file:")) {
+    return url;
+  }
+
+  const reloaded = new URL(url);
+  reloaded.searchParams.set("generation", String(value));
+  return reloaded.href;
+};
+
+const readExport = (moduleRecord: Record<string, unknown>, exportPath: string): unknown =>
+  exportPath.split(".").reduce<unknown>((value, key) => {
+    if (!value || (typeof value !== "object" && typeof value !== "function")) {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, moduleRecord);
+
+const readStringList = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string") ? [...value] : null;
+
+const readPackageJson = async (file: string): Promise<Record<string, unknown> | null> => {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+const readModulePackage = async (url: string): Promise<ModulePackage | null> => {
+  if (!url.startsWith("file:")) {
+    return null;
+  }
+
+  let directory = path.dirname(fileURLToPath(url));
+  for (;;) {
+    const content = await readPackageJson(path.join(directory, "package.json"));
+    if (content && typeof content.name === "string") {
+      return { name: content.name, version: typeof content.version === "string" ? content.version : null };
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+};
+
+const buildAdapter = async (kind: AdapterKind, name: string, loadGeneration: number): Promise<ModuleAdapter> => {
+  let url: string;
+  let moduleRecord: Record<string, unknown>;
+  try {
+    url = withGeneration(resolveModuleUrl(name), loadGeneration);
+    moduleRecord = (await import(loadGeneration === 0 ? name : url)) as Record<string, unknown>;
+  } catch (error) {
+    throw moduleUnavailable(name, error);
+  }
+
+  const functions: Record<string, StageFunction> = {};
+  const stages: Record<string, string | null> = {};
+  Object.entries(stageCandidates[kind]).forEach(([stage, candidates]) => {
+    const picked = candidates.find((candidate) => typeof readExport(moduleRecord, candidate) === "function");
+    stages[stage] = picked ?? null;
+    if (picked) {
+      functions[stage] = readExport(moduleRecord, picked) as StageFunction;
+    }
+  });
+
+  const declares: Record<string, string[] | null> = {};
+  Object.entries(declarationCandidates[kind]).forEach(([declaration, candidates]) => {
+    const values = candidates.map((candidate) => readStringList(readExport(moduleRecord, candidate)));
+    declares[declaration] = values.find((value) => value !== null) ?? null;
+  });
+
+  return {
+    kind,
+    module: name,
+    url,
+    generation: loadGeneration,
+    loadedAt: new Date().toISOString(),
+    stages,
+    declares,
+    stage: <T extends StageFunction>(stage: string): T => {
+      if (!functions[stage]) {
+        throw stageMissing(packageLabels[kind], stage);
+      }
+      return functions[stage] as T;
+    }
+  };
+};
+
+export const loadAdapter = (kind: AdapterKind, profile?: BackendProfile): Promise<ModuleAdapter> => {
+  const name = resolveModuleName(kind, profile);
+  const key = `${kind}:${name}`;
+  const cached = adapters.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = buildAdapter(kind, name, generation);
+  adapters.set(key, pending);
+  pending.catch(() => {
+    if (adapters.get(key) === pending) {
+      adapters.delete(key);
+    }
+  });
+  return pending;
+};
+
+export const describeAdapter = async (kind: AdapterKind, profile?: BackendProfile): Promise<AdapterDiagnostics> => {
+  try {
+    const adapter = await loadAdapter(kind, profile);
+    return {
+      module: adapter.module,
+      available: true,
+      url: adapter.url,
+      package: await readModulePackage(adapter.url),
+      generation: adapter.generation,
+      loadedAt: adapter.loadedAt,
+      stages: { ...adapter.stages },
+      declares: { ...adapter.declares }
+    };
+  } catch (error) {
+    return {
+      module: resolveModuleName(kind, profile),
+      available: false,
+      error: error instanceof ToolError ? String(error.details.error ?? error.message) : String(error)
+    };
+  }
+};
+
+export const describeAdapters = async (profile?: BackendProfile): Promise<Record<AdapterKind, AdapterDiagnostics>> => {
+  const [ingest, validator] = await Promise.all([describeAdapter("ingest", profile), describeAdapter("validator", profile)]);
+  return { ingest, validator };
+};
+
+export const reloadAdapters = async (profile?: BackendProfile): Promise<Record<AdapterKind, AdapterDiagnostics>> => {
+  generation += 1;
+  adapters.clear();
+  return await describeAdapters(profile);
+};
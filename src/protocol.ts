@@ -2,6 +2,8 @@ export type Request = {
   id: string;
   tool: string;
   input: Record<string, unknown>;
+  progress?: boolean;
+  timeoutMs?: number;
 };
 
 export type SuccessResponse = {
@@ -23,3 +25,72 @@ export type ErrorResponse = {
 };
 
 export type Response = SuccessResponse | ErrorResponse;
+
+export type ProgressEvent = {
+  type: string;
+  [key: string]: unknown;
+};
+
+export type ProgressNotification = {
+  id: string;
+  event: "progress";
+  progress: ProgressEvent;
+};
+
+export type ProtocolMode = "auto" | "legacy" | "jsonrpc";
+
+export type EnvelopeFeature = "streaming" | "cancellation" | "batching";
+
+export type HelloModule = {
+  module: string;
+  available: boolean;
+  version: string | null;
+};
+
+export type HelloOutput = {
+  protocolVersion: string;
+  supportedVersions: string[];
+  server: { name: string; version: string };
+  features: Record<EnvelopeFeature, boolean>;
+  tools: string[];
+  errorCodes: string[];
+  modules: {
+    ingest: HelloModule;
+    validator: HelloModule;
+  };
+};
+
+export type JsonRpcId = string | number;
+
+export type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id?: JsonRpcId | null;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+export type JsonRpcNotification = {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+export type JsonRpcSuccess = {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result: Record<string, unknown>;
+};
+
+export type JsonRpcErrorObject = {
+  code: number;
+  message: string;
+  data?: Record<string, unknown>;
+};
+
+export type JsonRpcFailure = {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  error: JsonRpcErrorObject;
+};
+
+export type JsonRpcResponse = JsonRpcSuccess | JsonRpcFailure;
@@ -0,0 +1,150 @@
+import type { ConfigSnapshot } from "./config.js";
+import type { ToolError } from "./errors.js";
+import type { BackendProfile } from "./modules.js";
+import type { ProgressEvent } from "./protocol.js";
+import type { SchedulerStats } from "./scheduler.js";
+import type { JsonSchema } from "./schemas.js";
+
+export type ToolBackend = {
+  name: string | null;
+  profile: BackendProfile;
+};
+
+export type ToolContext = {
+  signal: AbortSignal;
+  progress: (event: ProgressEvent) => void;
+  stage: (name: string) => void;
+  session: {
+    stats: () => SchedulerStats;
+    config: () => ConfigSnapshot;
+  };
+  tools: ToolRegistry;
+  backend: ToolBackend;
+  resolvePath: (value: string, pointer: string) => string;
+};
+
+export type ToolHandler = (
+  input: Record<string, unknown>,
+  context: ToolContext
+) => Promise<Record<string, unknown>> | Record<string, unknown>;
+
+export type ToolDefinition = {
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+  handler: ToolHandler;
+  legacyFailure?: (error: ToolError, input: Record<string, unknown>) => Record<string, unknown>;
+  immediate?: boolean;
+};
+
+export type ToolSchema = {
+  description?: string;
+  inputSchema?: JsonSchema;
+  outputSchema?: JsonSchema;
+  immediate?: boolean;
+};
+
+export type ToolRegistration = ToolSchema & {
+  handler: ToolHandler;
+};
+
+export type ToolCall = {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
+  context: ToolContext;
+};
+
+export type ToolMiddleware = (
+  call: ToolCall,
+  next: (input?: Record<string, unknown>) => Promise<Record<string, unknown>>
+) => Promise<Record<string, unknown>> | Record<string, unknown>;
+
+export type ToolRegistry = {
+  get: (name: string) => ToolDefinition | undefined;
+  names: () => string[];
+  middleware: ToolMiddleware[];
+};
+
+type RegistryOptions = {
+  builtin: Record<string, ToolDefinition>;
+  tools?: Record<string, ToolRegistration>;
+  middleware?: ToolMiddleware[];
+  reserved?: string[];
+  backends?: string[];
+};
+
+const anyObjectSchema: JsonSchema = { type: "object" };
+
+const withBackendField = (schema: JsonSchema, backends: string[]): JsonSchema =>
+  backends.length > 0 && schema.type === "object"
+    ? {
+        ...schema,
+        properties: {
+          ...schema.properties,
+          backend: { type: "string", enum: [...backends], description: "Backend profile that runs this call." }
+        }
+      }
+    : schema;
+
+export const createToolRegistry = ({
+  builtin,
+  tools = {},
+  middleware = [],
+  reserved = [],
+  backends = []
+}: RegistryOptions): ToolRegistry => {
+  const definitions: Record<string, ToolDefinition> = { ...builtin };
+
+  Object.entries(tools).forEach(([name, registration]) => {
+    if (!name.trim()) {
+      throw new Error("Tool names must be non-empty strings.");
+    }
+
+    if (reserved.includes(name)) {
+      throw new Error(`Tool name \"${name}\" is reserved for a control message.`);
+    }
+
+    if (Object.hasOwn(definitions, name)) {
+      throw new Error(`Tool \"${name}\" is already registered.`);
+    }
+
+    if (typeof registration.handler !== "function") {
+      throw new Error(`Tool \"${name}\" must have a handler function.`);
+    }
+
+    definitions[name] = {
+      description: registration.description ?? "",
+      inputSchema: registration.inputSchema ?? anyObjectSchema,
+      outputSchema: registration.outputSchema ?? anyObjectSchema,
+      handler: registration.handler,
+      immediate: registration.immediate
+    };
+  });
+
+  Object.entries(definitions).forEach(([name, definition]) => {
+    definitions[name] = { ...definition, inputSchema: withBackendField(definition.inputSchema, backends) };
+  });
+
+  return {
+    get: (name) => (Object.hasOwn(definitions, name) ? definitions[name] : undefined),
+    names: () => Object.keys(definitions),
+    middleware: [...middleware]
+  };
+};
+
+export const applyMiddleware = async (
+  middleware: ToolMiddleware[],
+  call: ToolCall,
+  run: (input: Record<string, unknown>) => Promise<Record<string, unknown>> | Record<string, unknown>
+): Promise<Record<string, unknown>> => {
+  const dispatch = async (index: number, input: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    if (index >= middleware.length) {
+      return await run(input);
+    }
+
+    return await middleware[index]({ ...call, input }, (next = input) => dispatch(index + 1, next));
+  };
+
+  return await dispatch(0, call.input);
+};
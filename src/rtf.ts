@@ -0,0 +1,372 @@
+export type RtfAttachment = {
+  name: string;
+  line: number;
+  sourceLine: number;
+};
+
+export type DecodedRtf = {
+  text: string;
+  sourceLines: number[];
+  attachments: RtfAttachment[];
+};
+
+export type LineRange = {
+  startLine: number;
+  endLine: number;
+};
+
+type Capture = {
+  kind: "list" | "attachment";
+  parts: string[];
+  sourceLine: number;
+};
+
+type GroupState = {
+  skip: boolean;
+  unicodeSkip: number;
+  capture: Capture | null;
+};
+
+const skippedDestinations = new Set([
+  "annotation",
+  "author",
+  "bkmkend",
+  "bkmkstart",
+  "colortbl",
+  "comment",
+  "datastore",
+  "doccomm",
+  "expandedcolortbl",
+  "filetbl",
+  "fldinst",
+  "fonttbl",
+  "footer",
+  "footerf",
+  "footerl",
+  "footerr",
+  "footnote",
+  "generator",
+  "header",
+  "headerf",
+  "headerl",
+  "headerr",
+  "info",
+  "latentstyles",
+  "listoverridetable",
+  "listtable",
+  "object",
+  "objdata",
+  "operator",
+  "pict",
+  "revtbl",
+  "rsidtbl",
+  "stylesheet",
+  "themedata",
+  "xmlnstbl"
+]);
+
+const listDestinations = new Set(["listtext", "pntext"]);
+
+const attachmentDestinations = new Set(["NeXTGraphic"]);
+
+const attachmentMarker = /^[\u00ac\ufffc]/;
+
+const breaks = new Set(["par", "line", "sect", "page", "row"]);
+
+const symbols: Record<string, string> = {
+  tab: "\t",
+  cell: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  emspace: "\u2003",
+  enspace: "\u2002",
+  qmspace: "\u2005"
+};
+
+const controlSymbols: Record<string, string> = {
+  "~": "\u00a0",
+  "-": "",
+  _: "-",
+  "{": "{",
+  "}": "}",
+  "\\": "\\"
+};
+
+const bulletMarks = new Set(["•", "·", "◦", "▪", "●", "■", "", "-", "*", "o", "§"]);
+
+export const isRtf = (text: string): boolean => text.trimStart().startsWith("{\\rtf");
+
+const windows1252 =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+const decode1252 = (bytes: number[]): string =>
+  bytes.map((byte) => (byte >= 0x80 && byte < 0xa0 ? windows1252[byte - 0x80] : String.fromCharCode(byte))).join("");
+
+const decoderFor = (codePage: number): ((bytes: number[]) => string) => {
+  if (codePage === 1252) {
+    return decode1252;
+  }
+  try {
+    const decoder = new TextDecoder(`windows-${codePage}`);
+    return (bytes) => decoder.decode(new Uint8Array(bytes));
+  } catch {
+    return decode1252;
+  }
+};
+
+const listMarker = (text: string): string => {
+  const marker = text.replace(/\s+/g, "");
+  if (!marker) {
+    return "";
+  }
+  return bulletMarks.has(marker) ? "- " : `${marker} `;
+};
+
+const normalizeLines = (
+  lines: string[],
+  sourceLines: number[],
+  attachments: Array<{ name: string; rawLine: number; sourceLine: number }>
+): DecodedRtf => {
+  const text: string[] = [];
+  const mapped: number[] = [];
+  const anchors: number[] = [];
+  const attachmentLines = new Set(attachments.map((attachment) => attachment.rawLine));
+  let anchor = 1;
+  lines.forEach((line, index) => {
+    const cleaned = line.replace(/[\t \u00a0\u2002\u2003\u2005]+/g, " ").trim();
+    const dropped = !cleaned && (text.length === 0 || text[text.length - 1] === "" || attachmentLines.has(index));
+    if (!dropped) {
+      text.push(cleaned);
+      mapped.push(sourceLines[index]);
+      anchor = cleaned ? text.length : anchor;
+    }
+    anchors.push(anchor);
+  });
+
+  while (text.length > 0 && text[text.length - 1] === "") {
+    text.pop();
+    mapped.pop();
+  }
+
+  return {
+    text: text.join("\n"),
+    sourceLines: mapped,
+    attachments: attachments.map(({ name, rawLine, sourceLine }) => ({ name, line: anchors[rawLine] ?? anchor, sourceLine }))
+  };
+};
+
+export const decodeRtf = (source: string): DecodedRtf => {
+  const lines: string[] = [];
+  const sourceLines: number[] = [];
+  const attachments: Array<{ name: string; rawLine: number; sourceLine: number }> = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1, capture: null };
+  let dropMarker = false;
+  let decode = decoderFor(1252);
+  let line = "";
+  let lineStart: number | null = null;
+  let sourceLine = 1;
+  let bytes: number[] = [];
+  let pendingSkip = 0;
+  let index = 0;
+
+  const write = (value: string) => {
+    if (state.skip || !value) {
+      return;
+    }
+    if (state.capture) {
+      state.capture.parts.push(value);
+      return;
+    }
+    if (dropMarker) {
+      dropMarker = false;
+      value = value.replace(attachmentMarker, "");
+      if (!value) {
+        return;
+      }
+    }
+    lineStart ??= sourceLine;
+    line += value;
+  };
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      write(decode(bytes));
+      bytes = [];
+    }
+  };
+
+  const emit = (value: string) => {
+    flushBytes();
+    write(value);
+  };
+
+  const breakLine = () => {
+    flushBytes();
+    if (state.skip || state.capture) {
+      return;
+    }
+    lines.push(line);
+    sourceLines.push(lineStart ?? sourceLine);
+    line = "";
+    lineStart = null;
+  };
+
+  const readControlWord = (): { word: string; param: number | null } => {
+    const start = index;
+    while (index < source.length && /[a-zA-Z]/.test(source[index])) {
+      index += 1;
+    }
+    const word = source.slice(start, index);
+    const match = /^-?\d+/.exec(source.slice(index, index + 12));
+    let param: number | null = null;
+    if (match) {
+      param = Number(match[0]);
+      index += match[0].length;
+    }
+    if (source[index] === " ") {
+      index += 1;
+    }
+    return { word, param };
+  };
+
+  const controlWord = (word: string, param: number | null, destination: boolean) => {
+    if (destination && skippedDestinations.has(word)) {
+      flushBytes();
+      state.skip = true;
+      return;
+    }
+
+    if (destination && (listDestinations.has(word) || attachmentDestinations.has(word))) {
+      flushBytes();
+      state.capture = { kind: listDestinations.has(word) ? "list" : "attachment", parts: [], sourceLine };
+      return;
+    }
+
+    if (word === "ansicpg" && param !== null) {
+      flushBytes();
+      decode = decoderFor(param);
+    } else if (word === "uc" && param !== null) {
+      state.unicodeSkip = param;
+    } else if (word === "u" && param !== null) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      pendingSkip = state.unicodeSkip;
+    } else if (word === "bin" && param !== null) {
+      index += param;
+    } else if (breaks.has(word)) {
+      breakLine();
+    } else if (symbols[word] !== undefined) {
+      emit(symbols[word]);
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === "\n") {
+      sourceLine += 1;
+      index += 1;
+      continue;
+    }
+
+    if (char === "\r") {
+      sourceLine += source[index + 1] === "\n" ? 0 : 1;
+      index += 1;
+      continue;
+    }
+
+    if (char === "{" || char === "}") {
+      flushBytes();
+      pendingSkip = 0;
+      if (char === "{") {
+        stack.push(state);
+        state = { ...state };
+      } else {
+        const closed = state;
+        state = stack.pop() ?? state;
+        const { capture } = closed;
+        if (capture && capture !== state.capture && !closed.skip) {
+          const text = capture.parts.join("");
+          if (capture.kind === "list") {
+            write(listMarker(text));
+          } else if (text.trim()) {
+            attachments.push({ name: text.trim(), rawLine: lines.length, sourceLine: capture.sourceLine });
+            dropMarker = true;
+          }
+        }
+      }
+      index += 1;
+      continue;
+    }
+
+    if (pendingSkip > 0) {
+      pendingSkip -= 1;
+      if (char === "\\" && source[index + 1] === "'") {
+        index += 4;
+      } else if (char === "\\" && /[a-zA-Z]/.test(source[index + 1] ?? "")) {
+        index += 1;
+        readControlWord();
+      } else {
+        index += char === "\\" ? 2 : 1;
+      }
+      continue;
+    }
+
+    if (char !== "\\") {
+      const code = char.charCodeAt(0);
+      if (code >= 0x80 && code <= 0xff && !state.skip) {
+        bytes.push(code);
+      } else {
+        emit(char);
+      }
+      index += 1;
+      continue;
+    }
+
+    const next = source[index + 1] ?? "";
+    if (next === "'") {
+      const byte = Number.parseInt(source.slice(index + 2, index + 4), 16);
+      if (!Number.isNaN(byte) && !state.skip) {
+        bytes.push(byte);
+      }
+      index += 4;
+    } else if (next === "*") {
+      index += 2;
+      flushBytes();
+      state.skip = true;
+    } else if (next === "\n" || next === "\r") {
+      index += 1;
+      breakLine();
+    } else if (/[a-zA-Z]/.test(next)) {
+      const destination = source[index - 1] === "{";
+      index += 1;
+      const { word, param } = readControlWord();
+      controlWord(word, param, destination);
+    } else {
+      emit(controlSymbols[next] ?? "");
+      index += 2;
+    }
+  }
+
+  flushBytes();
+  if (line || lineStart !== null) {
+    lines.push(line);
+    sourceLines.push(lineStart ?? sourceLine);
+  }
+
+  return normalizeLines(lines, sourceLines, attachments);
+};
+
+export const mapLineRange = (decoded: DecodedRtf, { startLine, endLine }: LineRange): LineRange => {
+  const last = decoded.sourceLines.length > 0 ? decoded.sourceLines[decoded.sourceLines.length - 1] : 1;
+  return {
+    startLine: decoded.sourceLines[startLine - 1] ?? last,
+    endLine: decoded.sourceLines[endLine - 1] ?? last
+  };
+};
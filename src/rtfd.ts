@@ -0,0 +1,79 @@
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { readZipFile } from "./zip.js";
+
+export type RtfdAttachmentFile = {
+  name: string;
+  mediaType: string;
+  data: Uint8Array;
+};
+
+export type RtfdBundle = {
+  rtf: string;
+  attachments: RtfdAttachmentFile[];
+};
+
+const textEntry = "txt.rtf";
+
+const imageMediaTypes: Record<string, string> = {
+  ".bmp": "image/bmp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".webp": "image/webp"
+};
+
+export const imageMediaType = (name: string): string | null => imageMediaTypes[path.extname(name).toLowerCase()] ?? null;
+
+const toRtf = (data: Uint8Array): string => Buffer.from(data).toString("latin1");
+
+const readRtfdDirectory = async (directory: string): Promise<RtfdBundle> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const text = entries.find((entry) => entry.isFile() && entry.name.toLowerCase() === textEntry);
+  if (!text) {
+    throw new Error(`${directory} has no TXT.rtf.`);
+  }
+
+  const attachments: RtfdAttachmentFile[] = [];
+  for (const entry of entries) {
+    const mediaType = imageMediaType(entry.name);
+    if (entry.isFile() && mediaType) {
+      attachments.push({ name: entry.name, mediaType, data: await readFile(path.join(directory, entry.name)) });
+    }
+  }
+
+  return { rtf: toRtf(await readFile(path.join(directory, text.name))), attachments };
+};
+
+const splitEntry = (name: string): [string, string] => {
+  const slash = name.lastIndexOf("/");
+  return [name.slice(0, slash + 1), name.slice(slash + 1)];
+};
+
+const readRtfdZip = async (file: string): Promise<RtfdBundle> => {
+  const entries = (await readZipFile(file)).filter(
+    (entry) => !entry.directory && !entry.name.startsWith("__MACOSX/") && !splitEntry(entry.name)[1].startsWith("._")
+  );
+  const text = entries
+    .filter((entry) => splitEntry(entry.name)[1].toLowerCase() === textEntry)
+    .sort((left, right) => left.name.split("/").length - right.name.split("/").length)[0];
+  if (!text) {
+    throw new Error(`${file} has no TXT.rtf.`);
+  }
+
+  const [bundle] = splitEntry(text.name);
+  const attachments = entries.flatMap((entry) => {
+    const [directory, name] = splitEntry(entry.name);
+    const mediaType = imageMediaType(name);
+    return directory === bundle && mediaType ? [{ name, mediaType, data: entry.read() }] : [];
+  });
+
+  return { rtf: toRtf(text.read()), attachments };
+};
+
+export const readRtfdBundle = async (file: string, kind: "rtfd-dir" | "rtfd.zip"): Promise<RtfdBundle> =>
+  kind === "rtfd-dir" ? await readRtfdDirectory(file) : await readRtfdZip(file);
@@ -0,0 +1,172 @@
+export type SchedulerOptions = {
+  concurrency?: number;
+  ordered?: boolean;
+  maxQueue?: number;
+};
+
+export type SchedulerStats = {
+  active: number;
+  queued: number;
+  waiting: number;
+  completed: number;
+  concurrency: number;
+  ordered: boolean;
+  maxQueue: number;
+  paused: boolean;
+  congested: boolean;
+};
+
+type SchedulerIo = {
+  output?: NodeJS.WritableStream;
+  pause?: () => void;
+  resume?: () => void;
+};
+
+type Job = {
+  seq: number;
+  task: () => Promise<unknown> | unknown;
+};
+
+export type Scheduler = {
+  submit: (task: () => Promise<unknown> | unknown, options?: { queued?: boolean }) => void;
+  write: (message: unknown) => void;
+  stats: () => SchedulerStats;
+  idle: () => Promise<void>;
+};
+
+export const defaultConcurrency = 8;
+export const defaultMaxQueue = 256;
+
+const normalizeLimit = (value: number | undefined, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+
+export const createScheduler = (options: SchedulerOptions, io: SchedulerIo): Scheduler => {
+  const concurrency = normalizeLimit(options.concurrency, defaultConcurrency);
+  const maxQueue = normalizeLimit(options.maxQueue, defaultMaxQueue);
+  const ordered = options.ordered ?? false;
+
+  const queue: Job[] = [];
+  const held = new Map<number, unknown>();
+  const idleWaiters: Array<() => void> = [];
+  let nextSeq = 0;
+  let nextEmit = 0;
+  let running = 0;
+  let active = 0;
+  let completed = 0;
+  let paused = false;
+  let congested = false;
+
+  const write = (message: unknown): void => {
+    const output = io.output;
+    if (!output) {
+      return;
+    }
+
+    const flushed = output.write(`${JSON.stringify(message)}\n`);
+    if (flushed === false && !congested) {
+      congested = true;
+      output.once("drain", () => {
+        congested = false;
+        pump();
+      });
+    }
+  };
+
+  const backlog = (): number => queue.length + held.size;
+
+  const notifyIdle = (): void => {
+    if (running > 0 || queue.length > 0 || held.size > 0) {
+      return;
+    }
+
+    idleWaiters.splice(0).forEach((resolve) => resolve());
+  };
+
+  const emit = (message: unknown): void => {
+    if (message !== null && message !== undefined) {
+      write(message);
+    }
+  };
+
+  const settle = (seq: number, message: unknown): void => {
+    if (!ordered) {
+      emit(message);
+      return;
+    }
+
+    held.set(seq, message);
+    while (held.has(nextEmit)) {
+      emit(held.get(nextEmit));
+      held.delete(nextEmit);
+      nextEmit += 1;
+    }
+  };
+
+  const run = (job: Job, counted: boolean): void => {
+    running += 1;
+    if (counted) {
+      active += 1;
+    }
+
+    Promise.resolve()
+      .then(job.task)
+      .catch(() => null)
+      .then((message) => {
+        running -= 1;
+        if (counted) {
+          active -= 1;
+          completed += 1;
+        }
+        settle(job.seq, message);
+        pump();
+        notifyIdle();
+      });
+  };
+
+  const pump = (): void => {
+    while (active < concurrency && queue.length > 0 && !congested && held.size + active < maxQueue) {
+      run(queue.shift() as Job, true);
+    }
+
+    if (paused && backlog() < maxQueue) {
+      paused = false;
+      io.resume?.();
+    }
+  };
+
+  return {
+    submit: (task, { queued = true } = {}) => {
+      const job = { seq: nextSeq, task };
+      nextSeq += 1;
+
+      if (!queued) {
+        run(job, false);
+        return;
+      }
+
+      queue.push(job);
+      if (!paused && backlog() >= maxQueue) {
+        paused = true;
+        io.pause?.();
+      }
+      pump();
+    },
+    write,
+    stats: () => ({
+      active,
+      queued: queue.length,
+      waiting: held.size,
+      completed,
+      concurrency,
+      ordered,
+      maxQueue,
+      paused,
+      congested
+    }),
+    idle: () =>
+      new Promise<void>((resolve) => {
+        idleWaiters.push(resolve);
+        notifyIdle();
+      })
+  };
+};
@@ -0,0 +1,738 @@
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  exclusiveMinimum?: number;
+};
+
+export type SchemaIssue = {
+  pointer: string;
+  message: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const matchesType = (type: JsonSchemaType, value: unknown): boolean => {
+  switch (type) {
+    case "object":
+      return isRecord(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+  }
+};
+
+const describeType = (type: JsonSchemaType, schema: JsonSchema): string => {
+  switch (type) {
+    case "object":
+      return "an object";
+    case "array":
+      return schema.items?.type && !Array.isArray(schema.items.type)
+        ? `an array of ${describePlural(schema.items.type)}`
+        : "an array";
+    case "string":
+      return schema.minLength !== undefined && schema.minLength > 0 ? "a non-empty string" : "a string";
+    case "integer":
+      return "an integer";
+    case "null":
+      return "null";
+    default:
+      return `a ${type}`;
+  }
+};
+
+const describePlural = (type: JsonSchemaType): string => {
+  switch (type) {
+    case "object":
+      return "objects";
+    case "array":
+      return "arrays";
+    case "string":
+      return "strings";
+    case "integer":
+      return "integers";
+    case "null":
+      return "nulls";
+    default:
+      return `${type}s`;
+  }
+};
+
+export const describeSchema = (schema: JsonSchema): string => {
+  if (schema.enum) {
+    return `one of ${schema.enum.map((entry) => JSON.stringify(entry)).join(", ")}`;
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length === 0) {
+    return "a value";
+  }
+
+  return types.map((type) => describeType(type, schema)).join(" or ");
+};
+
+const escapePointerSegment = (segment: string): string => segment.replace(/~/g, "~0").replace(/\//g, "~1");
+
+const joinLabel = (label: string, segment: string | number): string => {
+  if (typeof segment === "number") {
+    return `${label}[${segment}]`;
+  }
+
+  return label ? `${label}.${segment}` : segment;
+};
+
+const visit = (
+  schema: JsonSchema,
+  value: unknown,
+  pointer: string,
+  label: string,
+  optional: boolean,
+  issues: SchemaIssue[]
+): void => {
+  const suffix = optional ? " when provided" : "";
+  const typeMessage = `${label || "input"} must be ${describeSchema(schema)}${suffix}.`;
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    issues.push({ pointer, message: typeMessage });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some((entry) => entry === value)) {
+    issues.push({ pointer, message: typeMessage });
+    return;
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ pointer, message: typeMessage });
+    return;
+  }
+
+  if (typeof value === "string" && schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+    issues.push({ pointer, message: typeMessage });
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      const bound = schema.exclusiveMinimum === 0 ? "zero" : String(schema.exclusiveMinimum);
+      issues.push({ pointer, message: `${label} must be greater than ${bound}.` });
+      return;
+    }
+
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ pointer, message: `${label} must be at least ${schema.minimum}.` });
+      return;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const itemSchema = schema.items;
+    const itemIssues: SchemaIssue[] = [];
+    value.forEach((entry, index) => {
+      visit(itemSchema, entry, `${pointer}/${index}`, joinLabel(label, index), false, itemIssues);
+    });
+
+    const itemsArePrimitive = itemSchema.type !== undefined && !itemSchema.properties && !itemSchema.items;
+    if (itemsArePrimitive && itemIssues.length > 0) {
+      issues.push({ pointer, message: typeMessage });
+    } else {
+      issues.push(...itemIssues);
+    }
+    return;
+  }
+
+  if (isRecord(value)) {
+    const required = schema.required ?? [];
+    const properties = schema.properties ?? {};
+
+    Object.entries(properties).forEach(([key, propertySchema]) => {
+      const isRequired = required.includes(key);
+      if (value[key] === undefined) {
+        if (isRequired) {
+          visit(propertySchema, undefined, `${pointer}/${escapePointerSegment(key)}`, joinLabel(label, key), false, issues);
+        }
+        return;
+      }
+
+      visit(propertySchema, value[key], `${pointer}/${escapePointerSegment(key)}`, joinLabel(label, key), !isRequired, issues);
+    });
+
+    if (schema.additionalProperties === false) {
+      Object.keys(value)
+        .filter((key) => !(key in properties))
+        .forEach((key) => {
+          issues.push({
+            pointer: `${pointer}/${escapePointerSegment(key)}`,
+            message: `${joinLabel(label, key)} is not a supported field.`
+          });
+        });
+    } else if (isRecord(schema.additionalProperties)) {
+      const additionalSchema = schema.additionalProperties;
+      Object.keys(value)
+        .filter((key) => !(key in properties))
+        .forEach((key) => {
+          visit(additionalSchema, value[key], `${pointer}/${escapePointerSegment(key)}`, joinLabel(label, key), true, issues);
+        });
+    }
+  }
+};
+
+export const validateSchema = (schema: JsonSchema, value: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  visit(schema, value, "", "", false, issues);
+  return issues;
+};
+
+const lineRangeSchema = (description: string): Record<string, JsonSchema> => ({
+  startLine: { type: "number", exclusiveMinimum: 0, description: `First line of the ${description} (1-based).` },
+  endLine: { type: "number", exclusiveMinimum: 0, description: `Last line of the ${description} (inclusive).` }
+});
+
+const errorsSchema: JsonSchema = {
+  type: "array",
+  items: { type: "string" },
+  description: "Human-readable error messages."
+};
+
+const recipeSchema: JsonSchema = {
+  type: "object",
+  description: "A Soustack recipe payload."
+};
+
+const intermediateRecipeSchema: JsonSchema = {
+  type: "object",
+  required: ["title", "ingredients", "instructions"],
+  properties: {
+    title: { type: "string", minLength: 1, pattern: "\\S" },
+    ingredients: { type: "array", items: { type: "string" } },
+    instructions: { type: "array", items: { type: "string" } },
+    source: {
+      type: "object",
+      properties: {
+        startLine: { type: "number" },
+        endLine: { type: "number" },
+        evidence: { type: "string" }
+      }
+    }
+  }
+};
+
+const segmentChunkSchema: JsonSchema = {
+  type: "object",
+  required: ["startLine", "endLine", "confidence"],
+  properties: {
+    ...lineRangeSchema("chunk"),
+    titleGuess: { type: "string" },
+    confidence: { type: "number" },
+    evidence: { type: "string" }
+  }
+};
+
+export const emptyInputSchema: JsonSchema = {
+  type: "object",
+  properties: {}
+};
+
+export const pingOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["pong"],
+  properties: {
+    pong: { type: "boolean" }
+  }
+};
+
+export const statusOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["scheduler"],
+  properties: {
+    scheduler: {
+      type: "object",
+      required: ["active", "queued", "waiting", "completed", "concurrency", "ordered", "maxQueue", "paused", "congested"],
+      properties: {
+        active: { type: "integer", description: "Requests currently running." },
+        queued: { type: "integer", description: "Requests waiting for a free slot." },
+        waiting: { type: "integer", description: "Finished responses held back by ordered mode." },
+        completed: { type: "integer" },
+        concurrency: { type: "integer" },
+        ordered: { type: "boolean" },
+        maxQueue: { type: "integer" },
+        paused: { type: "boolean", description: "Input reading is paused because the queue is full." },
+        congested: { type: "boolean", description: "Output is not draining; no new requests are started." }
+      }
+    }
+  }
+};
+
+export const describeInputSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    tool: { type: "string", minLength: 1, description: "Only describe this tool." }
+  }
+};
+
+export const describeOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["tools"],
+  properties: {
+    tools: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "description", "inputSchema", "outputSchema"],
+        properties: {
+          name: { type: "string" },
+          description: { type: "string" },
+          inputSchema: { type: "object" },
+          outputSchema: { type: "object" }
+        }
+      }
+    }
+  }
+};
+
+const adapterSchema: JsonSchema = {
+  type: "object",
+  required: ["module", "available"],
+  properties: {
+    module: { type: "string" },
+    available: { type: "boolean" },
+    url: { type: "string", description: "URL the module was imported from." },
+    package: {
+      type: ["object", "null"],
+      description: "Nearest package.json above the module, or null when there is none.",
+      required: ["name", "version"],
+      properties: {
+        name: { type: "string" },
+        version: { type: ["string", "null"] }
+      }
+    },
+    generation: { type: "integer", description: "Number of reloads before this module was loaded." },
+    loadedAt: { type: "string" },
+    stages: {
+      type: "object",
+      description: "Export path picked for each stage, or null when the module does not expose it.",
+      additionalProperties: { type: ["string", "null"] }
+    },
+    declares: {
+      type: "object",
+      description: "Input kinds and options the module declares, or null when it declares none.",
+      additionalProperties: { type: ["array", "null"], items: { type: "string" } }
+    },
+    error: { type: "string" }
+  }
+};
+
+const adaptersSchema: JsonSchema = {
+  type: "object",
+  required: ["ingest", "validator"],
+  properties: {
+    ingest: adapterSchema,
+    validator: adapterSchema
+  }
+};
+
+export const metaOutputSchema: JsonSchema = {
+  type: "object",
+  required: [
+    "mcpVersion",
+    "soustackIngestVersion",
+    "soustackVersion",
+    "supportedInputKinds",
+    "capabilities",
+    "backend",
+    "adapters",
+    "timestamp"
+  ],
+  properties: {
+    mcpVersion: { type: "string" },
+    soustackIngestVersion: { type: ["string", "null"], description: "Version of the loaded ingest module." },
+    soustackVersion: { type: ["string", "null"], description: "Version of the loaded validator module." },
+    supportedInputKinds: { type: "array", items: { type: "string" } },
+    capabilities: {
+      type: "object",
+      required: ["stages", "inputKindsDeclared", "options", "validator"],
+      properties: {
+        stages: { type: "array", items: { type: "string" }, description: "Stages the ingest module exposes." },
+        inputKindsDeclared: {
+          type: "boolean",
+          description: "False when the ingest module does not declare its input kinds and defaults are reported."
+        },
+        options: { type: ["array", "null"], items: { type: "string" }, description: "Ingest options the module declares." },
+        validator: { type: ["string", "null"], description: "Export used to validate recipes." }
+      }
+    },
+    backend: { type: ["string", "null"], description: "Backend profile the modules were resolved for." },
+    adapters: adaptersSchema,
+    timestamp: { type: "string" }
+  }
+};
+
+export const reloadOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["adapters"],
+  properties: {
+    adapters: adaptersSchema
+  }
+};
+
+export const ingestDocumentInputSchema: JsonSchema = {
+  type: "object",
+  required: ["inputPath"],
+  properties: {
+    inputPath: { type: "string", minLength: 1, description: "File or directory to ingest." },
+    outDir: { type: "string", description: "Directory that receives emitted recipe files." },
+    options: {
+      type: "object",
+      properties: {
+        emitFiles: { type: "boolean", description: "Write recipes to outDir. Defaults to true when outDir is set." },
+        returnRecipes: { type: "boolean", description: "Include recipes in the response. Defaults to true." },
+        maxRecipes: { type: ["number", "null"], description: "Stop after this many recipes." },
+        strictValidation: { type: "boolean", description: "Fail the run when a recipe does not validate." },
+        include: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Globs a file must match when inputPath is a directory."
+        },
+        exclude: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Globs for files and directories to leave out of a directory walk."
+        },
+        maxDepth: {
+          type: ["integer", "null"],
+          minimum: 0,
+          description: "Subdirectory levels to descend into. 0 reads only the top directory."
+        },
+        symlinks: { type: "string", enum: ["skip", "follow"], description: "Whether a directory walk follows symlinks." }
+      }
+    }
+  }
+};
+
+const sourceLinesSchema: JsonSchema = {
+  type: "object",
+  required: ["startLine", "endLine"],
+  description: "Where the recipe's text sits in the RTF source.",
+  properties: lineRangeSchema("RTF source range")
+};
+
+export const ingestDocumentOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["ok", "source", "errors"],
+  properties: {
+    ok: { type: "boolean" },
+    source: {
+      type: "object",
+      required: ["inputPath"],
+      properties: {
+        inputPath: { type: "string" }
+      }
+    },
+    recipes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "slug", "recipe"],
+        properties: {
+          name: { type: "string" },
+          slug: { type: "string" },
+          recipe: recipeSchema,
+          sourceLines: sourceLinesSchema
+        }
+      }
+    },
+    emitted: {
+      type: "object",
+      required: ["outDir", "indexPath", "recipesDir", "count"],
+      properties: {
+        outDir: { type: "string" },
+        indexPath: { type: "string" },
+        recipesDir: { type: "string" },
+        count: { type: "number" }
+      }
+    },
+    files: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["source", "ok", "errors"],
+        properties: {
+          source: {
+            type: "object",
+            required: ["inputPath", "relativePath", "kind"],
+            properties: {
+              inputPath: { type: "string" },
+              relativePath: { type: "string" },
+              kind: { type: "string" }
+            }
+          },
+          ok: { type: "boolean" },
+          code: { type: "string" },
+          recipes: { type: "array", items: { type: "object" } },
+          emitted: { type: "object" },
+          errors: errorsSchema
+        }
+      }
+    },
+    skipped: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["path", "reason"],
+        properties: {
+          path: { type: "string" },
+          reason: { type: "string" }
+        }
+      }
+    },
+    errors: errorsSchema
+  }
+};
+
+export const segmentInputSchema: JsonSchema = {
+  type: "object",
+  required: ["text"],
+  properties: {
+    text: { type: "string", minLength: 1, description: "Raw text to segment." },
+    options: {
+      type: "object",
+      properties: {
+        maxChunks: { type: ["number", "null"], description: "Return at most this many chunks." },
+        format: {
+          type: "string",
+          enum: ["text", "markdown"],
+          description: "markdown segments on the heading hierarchy with the built-in segmenter. Defaults to text."
+        }
+      }
+    }
+  }
+};
+
+export const segmentOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["chunks"],
+  properties: {
+    chunks: { type: "array", items: segmentChunkSchema },
+    errors: errorsSchema
+  }
+};
+
+export const extractInputSchema: JsonSchema = {
+  type: "object",
+  required: ["text", "chunk"],
+  properties: {
+    text: { type: "string", minLength: 1, description: "Raw text the chunk was segmented from." },
+    chunk: {
+      type: "object",
+      required: ["startLine", "endLine"],
+      properties: {
+        ...lineRangeSchema("chunk"),
+        titleGuess: { type: "string" }
+      }
+    },
+    options: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: ["text", "markdown"],
+          description: "markdown strips Markdown syntax line for line, matching ingest.segment. Defaults to text."
+        }
+      }
+    }
+  }
+};
+
+export const extractOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["intermediate"],
+  properties: {
+    intermediate: { type: ["object", "null"] },
+    errors: errorsSchema
+  }
+};
+
+export const toSoustackInputSchema: JsonSchema = {
+  type: "object",
+  required: ["intermediate"],
+  properties: {
+    intermediate: intermediateRecipeSchema,
+    options: {
+      type: "object",
+      properties: {
+        sourcePath: { type: "string", description: "Recorded as x-ingest.sourcePath." }
+      }
+    }
+  }
+};
+
+export const toSoustackOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["recipe"],
+  properties: {
+    recipe: { type: ["object", "null"] },
+    errors: errorsSchema
+  }
+};
+
+export const validateInputSchema: JsonSchema = {
+  type: "object",
+  required: ["recipe"],
+  properties: {
+    recipe: recipeSchema
+  }
+};
+
+export const validateOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["ok", "errors"],
+  properties: {
+    ok: { type: "boolean" },
+    errors: errorsSchema
+  }
+};
+
+export const pipelineInputSchema: JsonSchema = {
+  type: "object",
+  required: ["text"],
+  properties: {
+    text: { type: "string", minLength: 1, description: "Raw text to run through every stage." },
+    options: {
+      type: "object",
+      properties: {
+        maxChunks: { type: ["number", "null"], description: "Process at most this many chunks." },
+        sourcePath: { type: "string", description: "Recorded as x-ingest.sourcePath." },
+        format: {
+          type: "string",
+          enum: ["text", "rtf", "markdown"],
+          description: "How to read text. Defaults to rtf when text starts with {\\rtf, otherwise text."
+        }
+      }
+    }
+  }
+};
+
+const pipelineStageSchema: JsonSchema = {
+  type: "object",
+  required: ["ok", "durationMs", "errors"],
+  properties: {
+    ok: { type: "boolean" },
+    durationMs: { type: "number" },
+    output: { description: "What the stage returned." },
+    errors: errorsSchema
+  }
+};
+
+const pipelineStagesSchema = (names: string[]): JsonSchema => ({
+  type: "object",
+  properties: Object.fromEntries(names.map((name) => [name, pipelineStageSchema]))
+});
+
+export const pipelineOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["ok", "failedStage", "stages", "chunks", "recipeCount"],
+  properties: {
+    ok: { type: "boolean" },
+    failedStage: { type: ["string", "null"] },
+    stages: pipelineStagesSchema(["decode", "normalize", "segment"]),
+    chunks: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["index", "chunk", "ok", "failedStage", "stages"],
+        properties: {
+          index: { type: "number" },
+          chunk: segmentChunkSchema,
+          sourceLines: sourceLinesSchema,
+          ok: { type: "boolean" },
+          failedStage: { type: ["string", "null"] },
+          stages: pipelineStagesSchema(["extract", "toSoustack", "canonicalize", "validate"])
+        }
+      }
+    },
+    recipeCount: { type: "number" }
+  }
+};
+
+const moduleSpecifierSchema: JsonSchema = { type: "string", minLength: 1 };
+
+const millisecondsSchema: JsonSchema = { type: "integer", minimum: 0 };
+
+export const serverConfigSchema: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    modules: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        ingest: { ...moduleSpecifierSchema, description: "Module that provides the ingest stages." },
+        validator: { ...moduleSpecifierSchema, description: "Module that validates recipes." }
+      }
+    },
+    defaults: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        outDir: { type: "string", minLength: 1, description: "outDir for ingest.document calls that do not set one." },
+        options: ingestDocumentInputSchema.properties?.options as JsonSchema
+      }
+    },
+    allowedRoots: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      description: "Directories that tool paths must stay inside."
+    },
+    timeouts: { type: "object", additionalProperties: millisecondsSchema },
+    concurrency: { type: "integer", minimum: 1 },
+    maxQueue: { type: "integer", minimum: 1 },
+    ordered: { type: "boolean" },
+    shutdownTimeout: millisecondsSchema,
+    protocol: { type: "string", enum: ["auto", "legacy", "jsonrpc"] },
+    legacyErrors: { type: "boolean" },
+    logLevel: { type: "string", enum: ["error", "warn", "info", "debug"] },
+    backends: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          ingest: moduleSpecifierSchema,
+          validator: moduleSpecifierSchema,
+          options: { type: "object" }
+        }
+      }
+    },
+    defaultBackend: { type: "string", minLength: 1 },
+    plugins: { type: "array", items: moduleSpecifierSchema }
+  }
+};
+
+export const configShowOutputSchema: JsonSchema = {
+  type: "object",
+  required: ["file", "config"],
+  properties: {
+    file: { type: ["string", "null"], description: "Config file that was loaded, if any." },
+    config: serverConfigSchema
+  }
+};
@@ -1,59 +1,167 @@
-import { readFile } from "node:fs/promises";
-import { createRequire } from "node:module";
+import { realpathSync } from "node:fs";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
 import readline from "node:readline";
-import type { ErrorDetails, ErrorResponse, Request, Response, SuccessResponse } from "./protocol.js";
-
-type ToolHandler = (input: Record<string, unknown>) => Promise<Record<string, unknown>> | Record<string, unknown>;
-
-type ServerOptions = {
+import { configFromServerOptions } from "./config.js";
+import type { ConfigServerOptions, ConfigSnapshot, ModulePaths, ToolDefaults } from "./config.js";
+import {
+  ToolError,
+  invalidInput,
+  pathNotAllowed,
+  toolErrorCodes,
+  legacyErrorList,
+  stageFailed,
+  toErrorDetails,
+  validationFailed
+} from "./errors.js";
+import { createLogger, silentLogger } from "./logger.js";
+import type { LogLevel, Logger } from "./logger.js";
+import { buildJsonRpcError, handleJsonRpcMessage, isJsonRpcMessage, jsonRpcErrorCodes } from "./jsonrpc.js";
+import type { JsonRpcHandlerOptions, JsonRpcToolDescriptor, ToolCallOptions } from "./jsonrpc.js";
+import { describeAdapter, describeAdapters, loadAdapter, reloadAdapters } from "./modules.js";
+import type { AdapterKind, BackendProfile, ModuleAdapter } from "./modules.js";
+import type {
+  EnvelopeFeature,
+  ErrorDetails,
+  ErrorResponse,
+  HelloModule,
+  HelloOutput,
+  JsonRpcId,
+  ProgressEvent,
+  ProgressNotification,
+  ProtocolMode,
+  Request,
+  Response,
+  SuccessResponse
+} from "./protocol.js";
+import {
+  configShowOutputSchema,
+  describeInputSchema,
+  describeOutputSchema,
+  emptyInputSchema,
+  statusOutputSchema,
+  extractInputSchema,
+  extractOutputSchema,
+  ingestDocumentInputSchema,
+  ingestDocumentOutputSchema,
+  metaOutputSchema,
+  pingOutputSchema,
+  pipelineInputSchema,
+  pipelineOutputSchema,
+  reloadOutputSchema,
+  segmentInputSchema,
+  segmentOutputSchema,
+  toSoustackInputSchema,
+  toSoustackOutputSchema,
+  validateInputSchema,
+  validateOutputSchema,
+  validateSchema
+} from "./schemas.js";
+import type { JsonSchema, SchemaIssue } from "./schemas.js";
+import { applyMiddleware, createToolRegistry } from "./registry.js";
+import type {
+  ToolBackend,
+  ToolContext,
+  ToolDefinition,
+  ToolMiddleware,
+  ToolRegistration,
+  ToolRegistry
+} from "./registry.js";
+import { createScheduler } from "./scheduler.js";
+import type { SchedulerOptions, SchedulerStats } from "./scheduler.js";
+import { normalizeMarkdown, segmentMarkdown } from "./markdown.js";
+import type { MarkdownDocument } from "./markdown.js";
+import { decodeRtf, isRtf, mapLineRange } from "./rtf.js";
+import type { DecodedRtf, LineRange } from "./rtf.js";
+import { readRtfdBundle } from "./rtfd.js";
+import type { RtfdBundle } from "./rtfd.js";
+import { toTranscriptEntry } from "./transcript.js";
+import { detectInputKind, walkDirectory } from "./walk.js";
+import type { SkippedEntry, SymlinkPolicy } from "./walk.js";
+
+type AbortReason = { code: "cancelled" } | { code: "shutdown" } | { code: "timeout"; timeoutMs: number };
+
+export type ServerOptions = {
   input: NodeJS.ReadableStream;
   output: NodeJS.WritableStream;
-};
-
-type IngestDocumentOptions = {
+  protocol?: ProtocolMode;
+  timeouts?: Record<string, number>;
+  shutdownDeadlineMs?: number;
+  legacyErrors?: boolean;
+  tools?: Record<string, ToolRegistration>;
+  middleware?: ToolMiddleware[];
+  backends?: Record<string, BackendProfile>;
+  defaultBackend?: string;
+  modules?: ModulePaths;
+  defaults?: ToolDefaults;
+  allowedRoots?: string[];
+  logLevel?: LogLevel;
+  logger?: Logger;
+  config?: ConfigSnapshot;
+  record?: NodeJS.WritableStream;
+} & SchedulerOptions;
+
+export type IngestDocumentOptions = {
   emitFiles?: boolean;
   returnRecipes?: boolean;
   maxRecipes?: number | null;
   strictValidation?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number | null;
+  symlinks?: SymlinkPolicy;
 };
 
-type IngestDocumentInput = {
+export type IngestDocumentInput = {
   inputPath: string;
   outDir?: string;
   options?: IngestDocumentOptions;
 };
 
-type IngestDocumentEmitted = {
+export type IngestDocumentEmitted = {
   outDir: string;
   indexPath: string;
   recipesDir: string;
   count: number;
 };
 
-type IngestDocumentRecipe = {
+export type IngestDocumentRecipe = {
   name: string;
   slug: string;
   recipe: object;
+  sourceLines?: LineRange;
+};
+
+export type IngestDocumentFile = {
+  source: { inputPath: string; relativePath: string; kind: string };
+  ok: boolean;
+  code?: string;
+  recipes?: IngestDocumentRecipe[];
+  emitted?: IngestDocumentEmitted;
+  errors: string[];
 };
 
-type IngestDocumentOutput = {
+export type IngestDocumentOutput = {
   ok: boolean;
   source: { inputPath: string };
   recipes?: IngestDocumentRecipe[];
   emitted?: IngestDocumentEmitted;
+  files?: IngestDocumentFile[];
+  skipped?: SkippedEntry[];
   errors: string[];
 };
 
-type SegmentOptions = {
+export type SegmentOptions = {
   maxChunks?: number | null;
+  format?: "text" | "markdown";
 };
 
-type SegmentInput = {
+export type SegmentInput = {
   text: string;
   options?: SegmentOptions;
 };
 
-type SegmentChunk = {
+export type SegmentChunk = {
   startLine: number;
   endLine: number;
   titleGuess?: string;
@@ -61,23 +169,28 @@ type SegmentChunk = {
   evidence?: string;
 };
 
-type SegmentOutput = {
+export type SegmentOutput = {
   chunks: SegmentChunk[];
   errors?: string[];
 };
 
-type ExtractChunk = {
+export type ExtractChunk = {
   startLine: number;
   endLine: number;
   titleGuess?: string;
 };
 
-type ExtractInput = {
+export type ExtractOptions = {
+  format?: "text" | "markdown";
+};
+
+export type ExtractInput = {
   text: string;
   chunk: ExtractChunk;
+  options?: ExtractOptions;
 };
 
-type IntermediateRecipe = {
+export type IntermediateRecipe = {
   title: string;
   ingredients: string[];
   instructions: string[];
@@ -88,7 +201,7 @@ type IntermediateRecipe = {
   };
 };
 
-type IntermediateRecipeInput = {
+export type IntermediateRecipeInput = {
   title: string;
   ingredients: string[];
   instructions: string[];
@@ -99,44 +212,139 @@ type IntermediateRecipeInput = {
   };
 };
 
-type ToSoustackOptions = {
+export type ToSoustackOptions = {
   sourcePath?: string;
 };
 
-type ToSoustackInput = {
+export type ToSoustackInput = {
   intermediate: IntermediateRecipeInput;
   options?: ToSoustackOptions;
 };
 
-type ToSoustackOutput = {
+export type ToSoustackOutput = {
   recipe: object;
 };
 
-type ValidateInput = {
+export type ValidateInput = {
   recipe: object;
 };
 
-type ValidationResult = {
+export type ValidationResult = {
+  ok: boolean;
+  errors: string[];
+};
+
+export type PipelineOptions = {
+  maxChunks?: number | null;
+  sourcePath?: string;
+  format?: "text" | "rtf" | "markdown";
+};
+
+export type PipelineInput = {
+  text: string;
+  options?: PipelineOptions;
+};
+
+export type PipelineStageRecord = {
   ok: boolean;
+  durationMs: number;
+  output?: unknown;
   errors: string[];
 };
 
-type SoustackValidator = (recipe: object) => Promise<unknown> | unknown;
+export type PipelineChunkStage = "extract" | "toSoustack" | "canonicalize" | "validate";
+
+export type PipelineChunkRecord = {
+  index: number;
+  chunk: SegmentChunk;
+  sourceLines?: LineRange;
+  ok: boolean;
+  failedStage: PipelineChunkStage | null;
+  stages: Partial<Record<PipelineChunkStage, PipelineStageRecord>>;
+};
+
+export type PipelineOutput = {
+  ok: boolean;
+  failedStage: "decode" | "normalize" | "segment" | null;
+  stages: Partial<Record<"decode" | "normalize" | "segment", PipelineStageRecord>>;
+  chunks: PipelineChunkRecord[];
+  recipeCount: number;
+};
+
+type StageOptions = {
+  signal?: AbortSignal;
+};
+
+type IngestHandler = (input: Record<string, unknown>) => Promise<unknown>;
 
-const supportedInputKinds = ["text", "rtf", "rtfd.zip", "rtfd-dir"] as const;
+type NormalizeStage = (input: unknown, options?: StageOptions) => Promise<unknown> | unknown;
+
+type SegmentStage = (input: unknown, options?: SegmentOptions & StageOptions) => Promise<unknown> | unknown;
+
+type ExtractStage = (chunk: ExtractChunk, lines: string[], options?: StageOptions) => Promise<unknown> | unknown;
+
+type ToSoustackStage = (
+  intermediate: IntermediateRecipeInput,
+  options?: ToSoustackOptions & StageOptions
+) => Promise<unknown> | unknown;
+
+type SoustackValidator = (recipe: object, options?: StageOptions) => Promise<unknown> | unknown;
+
+const defaultInputKinds = ["text", "rtf", "rtfd.zip", "rtfd-dir"] as const;
 const canonicalSchema = "https://soustack.dev/schema/recipe-vNext.json";
 const profileLite = "soustack/recipe-lite";
 const defaultStackKey = "default";
+const cancelTool = "cancel";
+const shutdownTool = "shutdown";
+const helloTool = "hello";
+const batchTool = "batch";
+const controlTools = [cancelTool, shutdownTool, helloTool, batchTool];
+const serverName = "soustack-mcp-ingest";
+const envelopeVersions = ["1.0", "2.0"];
+const latestEnvelopeVersion = envelopeVersions[envelopeVersions.length - 1];
+const supportedFeatures: EnvelopeFeature[] = ["streaming", "cancellation", "batching"];
+const serverErrorCodes = [
+  "invalid_json",
+  "invalid_request",
+  "tool_not_found",
+  "tool_error",
+  "cancelled",
+  "timeout",
+  "shutdown",
+  "skipped",
+  "unsupported_version"
+];
+const defaultShutdownDeadlineMs = 30_000;
+const defaultTimeouts: Record<string, number> = {
+  "ingest.document": 10 * 60 * 1000,
+  "ingest.segment": 60 * 1000,
+  "ingest.extract": 60 * 1000,
+  "ingest.toSoustack": 60 * 1000,
+  "ingest.validate": 60 * 1000,
+  "ingest.pipeline": 10 * 60 * 1000
+};
 
-const readPackageVersion = async (packageName?: string): Promise<string | null> => {
-  try {
-    if (packageName) {
-      const require = createRequire(import.meta.url);
-      const packagePath = require.resolve(`${packageName}/package.json`);
-      const content = await readFile(packagePath, "utf8");
-      return JSON.parse(content).version ?? null;
+const realTarget = (target: string): string => {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.push(path.basename(current));
+      current = parent;
     }
+  }
+};
+
+const duplicateIdMessage = (id: string): string => `Request id "${id}" is already in flight.`;
 
+const readPackageVersion = async (): Promise<string | null> => {
+  try {
     const content = await readFile(new URL("../package.json", import.meta.url), "utf8");
     return JSON.parse(content).version ?? null;
   } catch {
@@ -147,11 +355,17 @@ const readPackageVersion = async (packageName?: string): Promise<string | null>
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   Boolean(value) && typeof value === "object";
 
-const resolveIngestModuleName = (): string =>
-  process.env.SOUSTACK_INGEST_MODULE ?? "soustack-ingest";
-
-const resolveSoustackModuleName = (): string =>
-  process.env.SOUSTACK_VALIDATOR_MODULE ?? process.env.SOUSTACK_MODULE ?? "soustack";
+const runStage = async <T>(stage: (name: string) => void, name: string, run: () => Promise<T> | T): Promise<T> => {
+  stage(name);
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ToolError) {
+      throw error;
+    }
+    throw stageFailed(name, error);
+  }
+};
 
 const buildErrorList = (value: unknown): string[] => {
   if (!isRecord(value)) {
@@ -199,48 +413,6 @@ const extractRecipes = (value: unknown): IngestDocumentRecipe[] => {
   return value.recipes as IngestDocumentRecipe[];
 };
 
-const resolveIngestHandler = (
-  ingestModule: Record<string, unknown>
-): ((input: Record<string, unknown>) => Promise<unknown>) => {
-  const defaultExport = ingestModule.default;
-  const candidates = [
-    ingestModule.ingestDocument,
-    ingestModule.ingest,
-    ingestModule.runIngest,
-    ingestModule.run,
-    defaultExport,
-    isRecord(defaultExport) ? defaultExport.ingestDocument : undefined,
-    isRecord(defaultExport) ? defaultExport.ingest : undefined,
-    isRecord(defaultExport) ? defaultExport.runIngest : undefined,
-    isRecord(defaultExport) ? defaultExport.run : undefined
-  ];
-
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack-ingest did not expose a usable ingest function.");
-  }
-
-  return handler as (input: Record<string, unknown>) => Promise<unknown>;
-};
-
-const resolveSoustackValidator = (soustackModule: Record<string, unknown>): SoustackValidator => {
-  const defaultExport = soustackModule.default;
-  const candidates = [
-    soustackModule.validateRecipe,
-    soustackModule.validate,
-    soustackModule.validateRecipePayload,
-    isRecord(defaultExport) ? defaultExport.validateRecipe : undefined,
-    isRecord(defaultExport) ? defaultExport.validate : undefined
-  ];
-
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack did not expose a validator.");
-  }
-
-  return handler as SoustackValidator;
-};
-
 const sortObjectKeys = (value: unknown): unknown => {
   if (Array.isArray(value)) {
     return value.map((entry) => sortObjectKeys(entry));
@@ -344,7 +516,9 @@ const normalizeDocumentRecipes = (
 
 const validateDocumentRecipes = async (
   recipes: IngestDocumentRecipe[],
-  validator?: SoustackValidator
+  validator?: SoustackValidator,
+  signal?: AbortSignal,
+  progress?: (event: ProgressEvent) => void
 ): Promise<string[]> => {
   if (!validator) {
     return [];
@@ -352,12 +526,17 @@ const validateDocumentRecipes = async (
 
   const errors: string[] = [];
 
-  for (const recipe of recipes) {
-    const result = normalizeValidationResult(await validator(recipe.recipe));
+  for (const [index, recipe] of recipes.entries()) {
+    signal?.throwIfAborted();
+    const result = normalizeValidationResult(await validator(recipe.recipe, { signal }));
+    const position = { index: index + 1, total: recipes.length, slug: recipe.slug };
     if (!result.ok) {
       const prefix = `[${recipe.slug}] `;
       const messages = result.errors.length > 0 ? result.errors : ["Validation failed."];
       errors.push(...messages.map((message) => `${prefix}${message}`));
+      progress?.({ type: "validation_failed", ...position, errors: messages });
+    } else {
+      progress?.({ type: "recipe_validated", ...position, name: recipe.name, recipe: recipe.recipe });
     }
   }
 
@@ -367,7 +546,9 @@ const validateDocumentRecipes = async (
 const normalizeIngestResult = async (
   result: unknown,
   request: IngestDocumentInput,
-  validator?: SoustackValidator
+  validator?: SoustackValidator,
+  signal?: AbortSignal,
+  progress?: (event: ProgressEvent) => void
 ): Promise<IngestDocumentOutput> => {
   const source = { inputPath: request.inputPath };
   const emitFiles = request.options?.emitFiles ?? Boolean(request.outDir);
@@ -375,11 +556,7 @@ const normalizeIngestResult = async (
   const errors = buildErrorList(result);
 
   if (isRecord(result) && result.ok === false) {
-    return {
-      ok: false,
-      source,
-      errors: errors.length > 0 ? errors : ["Ingest pipeline reported failure."]
-    };
+    throw stageFailed("ingest", "Ingest pipeline reported failure.", errors);
   }
 
   const output: IngestDocumentOutput = {
@@ -400,92 +577,59 @@ const normalizeIngestResult = async (
   }
 
   if (output.recipes) {
-    const validationErrors = await validateDocumentRecipes(output.recipes, validator);
+    const validationErrors = await validateDocumentRecipes(output.recipes, validator, signal, progress);
     if (validationErrors.length > 0) {
-      output.ok = false;
-      output.errors = [...output.errors, ...validationErrors];
+      const { recipes, emitted } = output;
+      throw validationFailed([...output.errors, ...validationErrors], { source, recipes, emitted });
     }
   }
 
   return output;
 };
 
-const parseIngestInput = (
-  input: Record<string, unknown>
-): { value?: IngestDocumentInput; errors: string[]; source: { inputPath: string } } => {
-  const errors: string[] = [];
-  const inputPath = typeof input.inputPath === "string" ? input.inputPath : "";
-  const source = { inputPath };
-
-  if (!inputPath) {
-    errors.push("inputPath must be a non-empty string.");
+const parseInput = <T>(
+  schema: JsonSchema,
+  input: Record<string, unknown>,
+  build: () => T,
+  refine?: () => SchemaIssue[]
+): T => {
+  const issues = validateSchema(schema, input);
+  if (issues.length === 0 && refine) {
+    issues.push(...refine());
   }
 
-  let outDir: string | undefined;
-  if ("outDir" in input) {
-    if (typeof input.outDir === "string") {
-      outDir = input.outDir;
-    } else if (input.outDir !== undefined) {
-      errors.push("outDir must be a string when provided.");
-    }
+  if (issues.length > 0) {
+    throw invalidInput(issues);
   }
 
-  let options: IngestDocumentOptions | undefined;
-  if ("options" in input && input.options !== undefined) {
-    if (!isRecord(input.options)) {
-      errors.push("options must be an object when provided.");
-    } else {
-      options = {};
-
-      if ("emitFiles" in input.options) {
-        if (typeof input.options.emitFiles === "boolean") {
-          options.emitFiles = input.options.emitFiles;
-        } else if (input.options.emitFiles !== undefined) {
-          errors.push("options.emitFiles must be a boolean when provided.");
-        }
-      }
-
-      if ("returnRecipes" in input.options) {
-        if (typeof input.options.returnRecipes === "boolean") {
-          options.returnRecipes = input.options.returnRecipes;
-        } else if (input.options.returnRecipes !== undefined) {
-          errors.push("options.returnRecipes must be a boolean when provided.");
-        }
-      }
+  return build();
+};
 
-      if ("maxRecipes" in input.options) {
-        const value = input.options.maxRecipes;
-        if (value === null || typeof value === "number") {
-          options.maxRecipes = value as number | null;
-        } else if (value !== undefined) {
-          errors.push("options.maxRecipes must be a number or null when provided.");
-        }
-      }
+const checkLineRange = (range: unknown, label: string): SchemaIssue[] => {
+  if (!isRecord(range) || typeof range.startLine !== "number" || typeof range.endLine !== "number") {
+    return [];
+  }
 
-      if ("strictValidation" in input.options) {
-        if (typeof input.options.strictValidation === "boolean") {
-          options.strictValidation = input.options.strictValidation;
-        } else if (input.options.strictValidation !== undefined) {
-          errors.push("options.strictValidation must be a boolean when provided.");
+  return range.startLine > range.endLine
+    ? [
+        {
+          pointer: `/${label.split(".").join("/")}/startLine`,
+          message: `${label}.startLine must be less than or equal to ${label}.endLine.`
         }
-      }
-    }
-  }
+      ]
+    : [];
+};
 
-  if (errors.length > 0) {
-    return { errors, source };
-  }
+const resolveSource = (input: Record<string, unknown>): { inputPath: string } => ({
+  inputPath: typeof input.inputPath === "string" ? input.inputPath : ""
+});
 
-  return {
-    errors,
-    source,
-    value: {
-      inputPath,
-      outDir,
-      options
-    }
-  };
-};
+const parseIngestInput = (input: Record<string, unknown>): IngestDocumentInput =>
+  parseInput<IngestDocumentInput>(ingestDocumentInputSchema, input, () => ({
+    inputPath: input.inputPath as string,
+    outDir: input.outDir as string | undefined,
+    options: input.options as IngestDocumentOptions | undefined
+  }));
 
 const buildIngestRequest = (input: IngestDocumentInput): Record<string, unknown> => {
   const emitFiles = input.options?.emitFiles ?? Boolean(input.outDir);
@@ -512,521 +656,805 @@ const buildIngestRequest = (input: IngestDocumentInput): Record<string, unknown>
   return request;
 };
 
-const parseSegmentInput = (input: Record<string, unknown>): { value?: SegmentInput; errors: string[] } => {
-  const errors: string[] = [];
-  const text = typeof input.text === "string" ? input.text : "";
+const parseSegmentInput = (input: Record<string, unknown>): SegmentInput =>
+  parseInput<SegmentInput>(segmentInputSchema, input, () => ({
+    text: input.text as string,
+    options: input.options as SegmentOptions | undefined
+  }));
 
-  if (!text) {
-    errors.push("text must be a non-empty string.");
-  }
+const parseExtractInput = (input: Record<string, unknown>): ExtractInput =>
+  parseInput<ExtractInput>(
+    extractInputSchema,
+    input,
+    () => {
+      const chunk = input.chunk as ExtractChunk;
+      return {
+        text: input.text as string,
+        chunk: {
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          titleGuess: chunk.titleGuess
+        },
+        options: input.options as ExtractOptions | undefined
+      };
+    },
+    () => checkLineRange(input.chunk, "chunk")
+  );
 
-  let options: SegmentOptions | undefined;
-  if ("options" in input && input.options !== undefined) {
-    if (!isRecord(input.options)) {
-      errors.push("options must be an object when provided.");
-    } else {
-      options = {};
-
-      if ("maxChunks" in input.options) {
-        const value = input.options.maxChunks;
-        if (value === null || typeof value === "number") {
-          options.maxChunks = value as number | null;
-        } else if (value !== undefined) {
-          errors.push("options.maxChunks must be a number or null when provided.");
-        }
-      }
-    }
+const parseToSoustackInput = (input: Record<string, unknown>): ToSoustackInput =>
+  parseInput<ToSoustackInput>(
+    toSoustackInputSchema,
+    input,
+    () => {
+      const intermediate = input.intermediate as IntermediateRecipeInput;
+      return {
+        intermediate: {
+          title: intermediate.title,
+          ingredients: intermediate.ingredients,
+          instructions: intermediate.instructions,
+          source: intermediate.source
+        },
+        options: input.options as ToSoustackOptions | undefined
+      };
+    },
+    () => checkLineRange(isRecord(input.intermediate) ? input.intermediate.source : undefined, "intermediate.source")
+  );
+
+const parsePipelineInput = (input: Record<string, unknown>): PipelineInput =>
+  parseInput<PipelineInput>(pipelineInputSchema, input, () => ({
+    text: input.text as string,
+    options: input.options as PipelineOptions | undefined
+  }));
+
+const parseValidateInput = (input: Record<string, unknown>): ValidateInput =>
+  parseInput<ValidateInput>(validateInputSchema, input, () => ({
+    recipe: input.recipe as object
+  }));
+
+const runNormalizeStage = async (
+  normalize: NormalizeStage,
+  text: string,
+  signal?: AbortSignal
+) => {
+  try {
+    return await normalize(text, { signal });
+  } catch (error) {
+    signal?.throwIfAborted();
+    return await normalize({ text }, { signal });
   }
+};
 
-  if (errors.length > 0) {
-    return { errors };
+const normalizeValidationResult = (result: unknown): ValidationResult => {
+  if (!isRecord(result)) {
+    return {
+      ok: false,
+      errors: ["Validator returned an invalid result."]
+    };
   }
 
+  const ok = result.ok === true;
+  const errors = buildErrorList(result);
+
   return {
-    errors,
-    value: {
-      text,
-      options
-    }
+    ok,
+    errors
   };
 };
 
-const parseExtractInput = (input: Record<string, unknown>): { value?: ExtractInput; errors: string[] } => {
-  const errors: string[] = [];
-  const text = typeof input.text === "string" ? input.text : "";
+const runSegmentStage = async (
+  segment: SegmentStage,
+  normalized: unknown,
+  options?: SegmentOptions,
+  signal?: AbortSignal
+) => {
+  const stageOptions = { ...options, signal };
 
-  if (!text) {
-    errors.push("text must be a non-empty string.");
+  try {
+    return await segment(normalized, stageOptions);
+  } catch (error) {
+    signal?.throwIfAborted();
+    return await segment({ text: normalized, options: stageOptions });
   }
+};
 
-  const chunkValue = input.chunk;
-  if (!isRecord(chunkValue)) {
-    errors.push("chunk must be an object.");
+const extractSegmentChunks = (value: unknown): SegmentChunk[] => {
+  if (Array.isArray(value)) {
+    return value as SegmentChunk[];
   }
 
-  const startLine = isRecord(chunkValue) ? chunkValue.startLine : undefined;
-  const endLine = isRecord(chunkValue) ? chunkValue.endLine : undefined;
-  const titleGuess = isRecord(chunkValue) ? chunkValue.titleGuess : undefined;
-
-  if (typeof startLine !== "number" || !Number.isFinite(startLine)) {
-    errors.push("chunk.startLine must be a number.");
-  } else if (startLine <= 0) {
-    errors.push("chunk.startLine must be greater than zero.");
+  if (isRecord(value) && Array.isArray(value.chunks)) {
+    return value.chunks as SegmentChunk[];
   }
 
-  if (typeof endLine !== "number" || !Number.isFinite(endLine)) {
-    errors.push("chunk.endLine must be a number.");
-  } else if (endLine <= 0) {
-    errors.push("chunk.endLine must be greater than zero.");
-  }
+  return [];
+};
 
-  if (
-    typeof startLine === "number" &&
-    typeof endLine === "number" &&
-    Number.isFinite(startLine) &&
-    Number.isFinite(endLine) &&
-    startLine > endLine
-  ) {
-    errors.push("chunk.startLine must be less than or equal to chunk.endLine.");
+const resolveNormalizedLines = (normalized: unknown): string[] => {
+  if (typeof normalized === "string") {
+    return normalized.split("\n");
   }
 
-  if (titleGuess !== undefined && typeof titleGuess !== "string") {
-    errors.push("chunk.titleGuess must be a string when provided.");
+  if (isRecord(normalized) && typeof normalized.text === "string") {
+    return normalized.text.split("\n");
   }
 
-  if (errors.length > 0) {
-    return { errors };
-  }
+  return [];
+};
 
-  return {
-    errors,
-    value: {
-      text,
-      chunk: {
-        startLine: startLine as number,
-        endLine: endLine as number,
-        titleGuess: titleGuess as string | undefined
-      }
+const forwardProgressEvent = (
+  event: unknown,
+  progress: (event: ProgressEvent) => void,
+  stage: (name: string) => void
+): void => {
+  if (isRecord(event) && !Array.isArray(event) && typeof event.type === "string" && event.type) {
+    if (typeof event.stage === "string" && event.stage) {
+      stage(event.stage);
     }
-  };
+    progress(event as ProgressEvent);
+  }
 };
 
-const parseIntermediateInput = (
-  input: Record<string, unknown>,
-  errors: string[]
-): IntermediateRecipeInput | undefined => {
-  const intermediate = input.intermediate;
-  if (!isRecord(intermediate)) {
-    errors.push("intermediate must be an object.");
-    return undefined;
-  }
+type IngestContext = {
+  signal: AbortSignal;
+  progress: (event: ProgressEvent) => void;
+  stage: (name: string) => void;
+};
 
-  const title = intermediate.title;
-  if (typeof title !== "string" || !title.trim()) {
-    errors.push("intermediate.title must be a non-empty string.");
-  }
+const runIngestHandler = async (
+  handler: IngestHandler,
+  request: IngestDocumentInput,
+  { signal, progress, stage }: IngestContext,
+  extra: Record<string, unknown> = {}
+): Promise<unknown> => {
+  const result = await runStage(stage, "ingest", () =>
+    handler({
+      ...buildIngestRequest(request),
+      ...extra,
+      signal,
+      onProgress: (event: unknown) => forwardProgressEvent(event, progress, stage)
+    })
+  );
+  signal.throwIfAborted();
+  stage("validate");
+  return result;
+};
 
-  const ingredients = intermediate.ingredients;
-  if (!Array.isArray(ingredients) || ingredients.some((item) => typeof item !== "string")) {
-    errors.push("intermediate.ingredients must be an array of strings.");
+const reportCompletion = async (
+  progress: (event: ProgressEvent) => void,
+  run: () => Promise<IngestDocumentOutput>
+): Promise<IngestDocumentOutput> => {
+  try {
+    const output = await run();
+    progress({
+      type: "completed",
+      ok: true,
+      recipeCount:
+        output.recipes?.length ??
+        output.emitted?.count ??
+        output.files?.reduce((count, file) => count + (file.emitted?.count ?? 0), 0) ??
+        0,
+      errorCount: output.errors.length
+    });
+    return output;
+  } catch (error) {
+    if (error instanceof ToolError && error.code === "validation_failed") {
+      progress({
+        type: "completed",
+        ok: false,
+        recipeCount: Array.isArray(error.details.recipes) ? error.details.recipes.length : 0,
+        errorCount: (error.details.errors as string[]).length
+      });
+    }
+    throw error;
   }
+};
 
-  const instructions = intermediate.instructions;
-  if (!Array.isArray(instructions) || instructions.some((item) => typeof item !== "string")) {
-    errors.push("intermediate.instructions must be an array of strings.");
+const resolveInputKind = async (inputPath: string): Promise<{ directory: boolean; kind: string | null }> => {
+  try {
+    const directory = (await stat(inputPath)).isDirectory();
+    return { directory, kind: await detectInputKind(inputPath, directory) };
+  } catch {
+    return { directory: false, kind: null };
   }
+};
 
-  const source = intermediate.source;
-  if (source !== undefined) {
-    if (!isRecord(source)) {
-      errors.push("intermediate.source must be an object when provided.");
-    } else {
-      const startLine = source.startLine;
-      const endLine = source.endLine;
-      const evidence = source.evidence;
-
-      if (startLine !== undefined && (typeof startLine !== "number" || !Number.isFinite(startLine))) {
-        errors.push("intermediate.source.startLine must be a number when provided.");
-      }
-
-      if (endLine !== undefined && (typeof endLine !== "number" || !Number.isFinite(endLine))) {
-        errors.push("intermediate.source.endLine must be a number when provided.");
-      }
+const decoderStages = ["segment", "extract", "toSoustack"];
+const decoderKinds = ["rtf", "rtfd.zip", "rtfd-dir", "markdown"];
+const attachmentsDir = "attachments";
 
-      if (typeof startLine === "number" && typeof endLine === "number" && startLine > endLine) {
-        errors.push("intermediate.source.startLine must be less than or equal to intermediate.source.endLine.");
-      }
+type DecodedSource = {
+  decoded: DecodedRtf;
+  files: RtfdBundle["attachments"];
+  markdown?: MarkdownDocument;
+};
 
-      if (evidence !== undefined && typeof evidence !== "string") {
-        errors.push("intermediate.source.evidence must be a string when provided.");
-      }
-    }
-  }
+const decodedInputKinds = (adapter: Pick<ModuleAdapter, "stages" | "declares">): string[] =>
+  decoderStages.every((name) => Boolean(adapter.stages[name]))
+    ? decoderKinds.filter((kind) => !adapter.declares.inputKinds?.includes(kind))
+    : [];
+
+const readDecodedSource = async (inputPath: string, kind: string): Promise<DecodedSource> => {
+  if (kind === "markdown") {
+    const markdown = normalizeMarkdown(await readFile(inputPath, "utf8"));
+    const sourceLines = markdown.text.split("\n").map((_line, index) => index + 1);
+    return { decoded: { text: markdown.text, sourceLines, attachments: [] }, files: [], markdown };
+  }
+  const bundle =
+    kind === "rtf"
+      ? { rtf: await readFile(inputPath, "latin1"), attachments: [] }
+      : await readRtfdBundle(inputPath, kind as "rtfd-dir" | "rtfd.zip");
+  return { decoded: decodeRtf(bundle.rtf), files: bundle.attachments };
+};
 
-  if (errors.length > 0) {
-    return undefined;
-  }
+const withMetadata = (recipe: unknown, metadata: Record<string, unknown> | undefined): unknown =>
+  metadata && Object.keys(metadata).length > 0 && isRecord(recipe)
+    ? { ...recipe, metadata: { ...metadata, ...(isRecord(recipe.metadata) ? recipe.metadata : {}) } }
+    : recipe;
 
-  return {
-    title: title as string,
-    ingredients: ingredients as string[],
-    instructions: instructions as string[],
-    source: source as IntermediateRecipeInput["source"]
-  };
+const chunkOwning = (chunks: SegmentChunk[], line: number): number => {
+  const containing = chunks.findIndex((chunk) => chunk.startLine <= line && line <= chunk.endLine);
+  return containing >= 0 ? containing : Math.max(chunks.filter((chunk) => chunk.startLine <= line).length - 1, 0);
 };
 
-const parseToSoustackInput = (input: Record<string, unknown>): { value?: ToSoustackInput; errors: string[] } => {
-  const errors: string[] = [];
-  const intermediate = parseIntermediateInput(input, errors);
+const emitRecipes = async (
+  outDir: string,
+  recipes: IngestDocumentRecipe[],
+  attachments: Array<{ path: string; data: Uint8Array }>
+): Promise<IngestDocumentEmitted> => {
+  const recipesDir = path.join(outDir, "recipes");
+  const indexPath = path.join(outDir, "index.json");
+  await mkdir(recipesDir, { recursive: true });
+  for (const attachment of attachments) {
+    const target = path.join(outDir, attachment.path);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, attachment.data);
+  }
+  for (const { slug, recipe } of recipes) {
+    await writeFile(path.join(recipesDir, `${slug}.json`), `${JSON.stringify(canonicalizeRecipe(recipe, slug), null, 2)}\n`);
+  }
+  const index = recipes.map(({ name, slug }) => ({ name, slug, path: `recipes/${slug}.json` }));
+  await writeFile(indexPath, `${JSON.stringify({ recipes: index }, null, 2)}\n`);
+  return { outDir, indexPath, recipesDir, count: recipes.length };
+};
 
-  let options: ToSoustackOptions | undefined;
-  if ("options" in input && input.options !== undefined) {
-    if (!isRecord(input.options)) {
-      errors.push("options must be an object when provided.");
-    } else {
-      options = {};
-      if ("sourcePath" in input.options) {
-        if (typeof input.options.sourcePath === "string") {
-          options.sourcePath = input.options.sourcePath;
-        } else if (input.options.sourcePath !== undefined) {
-          errors.push("options.sourcePath must be a string when provided.");
+const createDecodedIngestHandler =
+  (adapter: ModuleAdapter, kind: string, stage: (name: string) => void): IngestHandler =>
+  async (request) => {
+    const inputPath = String(request.inputPath);
+    const signal = request.signal as AbortSignal;
+    const onProgress = request.onProgress as (event: unknown) => void;
+    const emit = Boolean(request.emitFiles) && typeof request.outDir === "string";
+    const { decoded, files, markdown } = await runStage(stage, "decode", () => readDecodedSource(inputPath, kind));
+    const lines = decoded.text.split("\n");
+    const maxChunks = typeof request.maxRecipes === "number" ? request.maxRecipes : undefined;
+    const chunks = await runStage(stage, "segment", async () =>
+      markdown
+        ? segmentMarkdown(markdown, { maxChunks })
+        : extractSegmentChunks(
+            await runSegmentStage(
+              adapter.stage<SegmentStage>("segment"),
+              decoded.text,
+              maxChunks === undefined ? undefined : { maxChunks },
+              signal
+            )
+          )
+    );
+    onProgress({ type: "decoded", inputPath, lines: lines.length, chunks: chunks.length });
+
+    const errors: string[] = [];
+    const copies: Array<{ path: string; data: Uint8Array }> = [];
+    const owners = decoded.attachments.flatMap(({ name, line, sourceLine }) => {
+      const file = files.find((attachment) => attachment.name === name);
+      if (!file) {
+        if (kind !== "rtf") {
+          errors.push(`Attachment "${name}" is not in the bundle.`);
         }
+        return [];
       }
-    }
-  }
-
-  if (errors.length > 0 || !intermediate) {
-    return { errors };
-  }
+      return [
+        {
+          chunk: chunkOwning(chunks, line),
+          data: file.data,
+          entry: { name, mediaType: file.mediaType, size: file.data.byteLength, sourceLine }
+        }
+      ];
+    });
 
-  return {
-    errors,
-    value: {
-      intermediate,
-      options
+    const slugs = new Map<string, number>();
+    const recipes: IngestDocumentRecipe[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      signal.throwIfAborted();
+      const intermediate = await runStage(stage, "extract", () =>
+        adapter.stage<ExtractStage>("extract")(
+          { startLine: chunk.startLine, endLine: chunk.endLine, titleGuess: chunk.titleGuess },
+          lines,
+          { signal }
+        )
+      );
+      const recipe = withMetadata(
+        await runStage(stage, "toSoustack", () =>
+          adapter.stage<ToSoustackStage>("toSoustack")(intermediate as IntermediateRecipeInput, {
+            sourcePath: inputPath,
+            signal
+          })
+        ),
+        markdown?.metadata
+      );
+      const name = isRecord(recipe) && typeof recipe.name === "string" ? recipe.name : "";
+      const base = ensureSlug(undefined, name, inputPath);
+      const seen = (slugs.get(base) ?? 0) + 1;
+      slugs.set(base, seen);
+      const slug = seen === 1 ? base : `${base}-${seen}`;
+      const attachments = owners
+        .filter((owner) => owner.chunk === index)
+        .map(({ entry, data }) => {
+          if (!emit) {
+            return entry;
+          }
+          const target = `${attachmentsDir}/${slug}/${path.basename(entry.name)}`;
+          if (!copies.some((copy) => copy.path === target)) {
+            copies.push({ path: target, data });
+          }
+          return { ...entry, path: target };
+        });
+      const linkedRecipe =
+        attachments.length > 0 && isRecord(recipe)
+          ? { ...recipe, "x-ingest": { ...(isRecord(recipe["x-ingest"]) ? recipe["x-ingest"] : {}), attachments } }
+          : recipe;
+      recipes.push({ name, slug, recipe: linkedRecipe as object, sourceLines: mapLineRange(decoded, chunk) });
+      onProgress({ type: "recipe_extracted", inputPath, name, slug });
     }
-  };
-};
 
-const parseValidateInput = (input: Record<string, unknown>): { value?: ValidateInput; errors: string[] } => {
-  const errors: string[] = [];
-  const recipe = input.recipe;
-
-  if (!isRecord(recipe)) {
-    errors.push("recipe must be an object.");
-  }
+    const emitted = emit
+      ? await runStage(stage, "ingest", () => emitRecipes(String(request.outDir), recipes, copies))
+      : undefined;
+    return { ok: true, recipes, ...(emitted ? { emitted } : {}), errors };
+  };
 
-  if (errors.length > 0) {
-    return { errors };
-  }
+type DirectoryIngest = IngestContext & {
+  handler: (kind: string) => IngestHandler;
+  validator: SoustackValidator;
+  kinds: readonly string[];
+  resolvePath: (value: string, pointer: string) => string;
+};
 
-  return {
-    errors,
-    value: {
-      recipe: recipe as object
+const ingestDirectory = async (
+  request: IngestDocumentInput,
+  { handler, validator, kinds, resolvePath, ...context }: DirectoryIngest
+): Promise<IngestDocumentOutput> => {
+  const { signal, progress, stage } = context;
+  const { include, exclude, maxDepth, symlinks, ...options } = request.options ?? {};
+  const allow = (target: string): boolean => {
+    try {
+      resolvePath(target, "/inputPath");
+      return true;
+    } catch {
+      return false;
     }
   };
-};
-
-const resolveNormalizeStage = (
-  ingestModule: Record<string, unknown>
-): ((input: unknown) => Promise<unknown> | unknown) => {
-  const defaultExport = ingestModule.default;
-  const candidates = [
-    ingestModule.normalize,
-    ingestModule.normalizeText,
-    ingestModule.normalizeInput,
-    isRecord(defaultExport) ? defaultExport.normalize : undefined,
-    isRecord(defaultExport) ? defaultExport.normalizeText : undefined
-  ];
-
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack-ingest did not expose a normalize stage.");
-  }
-
-  return handler as (input: unknown) => Promise<unknown> | unknown;
-};
-
-const resolveSegmentStage = (
-  ingestModule: Record<string, unknown>
-): ((input: unknown, options?: SegmentOptions) => Promise<unknown> | unknown) => {
-  const defaultExport = ingestModule.default;
-  const candidates = [
-    ingestModule.segment,
-    ingestModule.segmentText,
-    ingestModule.segmentLines,
-    isRecord(defaultExport) ? defaultExport.segment : undefined,
-    isRecord(defaultExport) ? defaultExport.segmentText : undefined,
-    isRecord(defaultExport) && isRecord(defaultExport.stages) ? defaultExport.stages.segment : undefined,
-    isRecord(ingestModule.stages) ? ingestModule.stages.segment : undefined
-  ];
-
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack-ingest did not expose a segment stage.");
-  }
-
-  return handler as (input: unknown, options?: SegmentOptions) => Promise<unknown> | unknown;
-};
-
-const resolveExtractStage = (
-  ingestModule: Record<string, unknown>
-): ((chunk: ExtractChunk, lines: string[]) => Promise<unknown> | unknown) => {
-  const defaultExport = ingestModule.default;
-  const candidates = [
-    ingestModule.extract,
-    ingestModule.extractRecipe,
-    ingestModule.extractChunk,
-    isRecord(defaultExport) ? defaultExport.extract : undefined,
-    isRecord(defaultExport) ? defaultExport.extractRecipe : undefined,
-    isRecord(defaultExport) ? defaultExport.extractChunk : undefined,
-    isRecord(defaultExport) && isRecord(defaultExport.stages) ? defaultExport.stages.extract : undefined,
-    isRecord(ingestModule.stages) ? ingestModule.stages.extract : undefined
-  ];
-
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack-ingest did not expose an extract stage.");
-  }
+  const { files, skipped } = await runStage(stage, "walk", () =>
+    walkDirectory(request.inputPath, { include, exclude, maxDepth, symlinks, kinds, allow, signal })
+  );
 
-  return handler as (chunk: ExtractChunk, lines: string[]) => Promise<unknown> | unknown;
-};
+  const results: IngestDocumentFile[] = [];
+  let remaining = typeof options.maxRecipes === "number" ? options.maxRecipes : null;
+  for (const [index, file] of files.entries()) {
+    if (remaining !== null && remaining <= 0) {
+      skipped.push({ path: file.relativePath, reason: "maxRecipes was reached" });
+      continue;
+    }
 
-const resolveToSoustackStage = (
-  ingestModule: Record<string, unknown>
-): ((intermediate: IntermediateRecipeInput, options?: ToSoustackOptions) => Promise<unknown> | unknown) => {
-  const defaultExport = ingestModule.default;
-  const candidates = [
-    ingestModule.toSoustack,
-    isRecord(defaultExport) ? defaultExport.toSoustack : undefined,
-    isRecord(defaultExport) && isRecord(defaultExport.stages) ? defaultExport.stages.toSoustack : undefined,
-    isRecord(ingestModule.stages) ? ingestModule.stages.toSoustack : undefined
-  ];
+    signal.throwIfAborted();
+    progress({ type: "file_started", index: index + 1, total: files.length, path: file.relativePath, kind: file.kind });
+    const fileRequest: IngestDocumentInput = {
+      inputPath: file.path,
+      outDir: request.outDir ? path.join(request.outDir, file.relativePath) : undefined,
+      options: remaining === null ? options : { ...options, maxRecipes: remaining }
+    };
+    const source = { inputPath: file.path, relativePath: file.relativePath, kind: file.kind };
+    let record: IngestDocumentFile;
+    try {
+      const result = await runIngestHandler(handler(file.kind), fileRequest, context, { inputKind: file.kind });
+      const output = await normalizeIngestResult(result, fileRequest, validator, signal, progress);
+      record = { source, ok: true, recipes: output.recipes, emitted: output.emitted, errors: output.errors };
+    } catch (error) {
+      signal.throwIfAborted();
+      if (!(error instanceof ToolError)) {
+        throw error;
+      }
+      const { recipes, emitted, errors } = error.details;
+      record = {
+        source,
+        ok: false,
+        code: error.code,
+        recipes: recipes as IngestDocumentRecipe[] | undefined,
+        emitted: emitted as IngestDocumentEmitted | undefined,
+        errors: Array.isArray(errors) && errors.length > 0 ? errors.map(String) : [error.message]
+      };
+    }
 
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack-ingest did not expose a toSoustack stage.");
+    const count = record.recipes?.length ?? record.emitted?.count ?? 0;
+    remaining = remaining === null ? null : remaining - count;
+    results.push(record);
+    progress({ type: "file_completed", path: file.relativePath, ok: record.ok, recipeCount: count });
   }
 
-  return handler as (intermediate: IntermediateRecipeInput, options?: ToSoustackOptions) => Promise<unknown> | unknown;
-};
-
-const resolveValidateStage = (
-  ingestModule: Record<string, unknown>
-): ((recipe: object) => Promise<unknown> | unknown) => {
-  const defaultExport = ingestModule.default;
-  const candidates = [
-    ingestModule.validate,
-    isRecord(defaultExport) ? defaultExport.validate : undefined,
-    isRecord(defaultExport) && isRecord(defaultExport.stages) ? defaultExport.stages.validate : undefined,
-    isRecord(ingestModule.stages) ? ingestModule.stages.validate : undefined
-  ];
+  const sourceErrors = (file: IngestDocumentFile): string[] =>
+    file.errors.map((error) => `${file.source.relativePath}: ${error}`);
+  const recipes = (options.returnRecipes ?? true) ? results.flatMap((file) => file.recipes ?? []) : undefined;
+  const output: IngestDocumentOutput = {
+    ok: results.every((file) => file.ok),
+    source: { inputPath: request.inputPath },
+    ...(recipes ? { recipes } : {}),
+    files: results,
+    skipped,
+    errors: results.flatMap(sourceErrors)
+  };
 
-  const handler = candidates.find((candidate) => typeof candidate === "function");
-  if (!handler) {
-    throw new Error("soustack-ingest did not expose a validate stage.");
+  const invalid = results.filter((file) => file.code === "validation_failed");
+  if (invalid.length > 0) {
+    throw validationFailed(invalid.flatMap(sourceErrors), {
+      source: output.source,
+      recipes: output.recipes,
+      files: results,
+      skipped
+    });
   }
 
-  return handler as (recipe: object) => Promise<unknown> | unknown;
+  return output;
 };
 
-const runNormalizeStage = async (normalize: (input: unknown) => Promise<unknown> | unknown, text: string) => {
+const timeStage = async (
+  stage: (name: string) => void,
+  signal: AbortSignal,
+  name: string,
+  run: () => Promise<unknown> | unknown,
+  passed: (output: unknown) => boolean = () => true
+): Promise<PipelineStageRecord> => {
+  stage(name);
+  const started = Date.now();
   try {
-    return await normalize(text);
+    const output = await run();
+    const ok = passed(output);
+    return { ok, durationMs: Date.now() - started, output, errors: ok ? [] : buildErrorList(output) };
   } catch (error) {
-    return await normalize({ text });
-  }
-};
-
-const normalizeValidationResult = (result: unknown): ValidationResult => {
-  if (!isRecord(result)) {
+    signal.throwIfAborted();
     return {
       ok: false,
-      errors: ["Validator returned an invalid result."]
+      durationMs: Date.now() - started,
+      errors: [error instanceof Error ? error.message : String(error)]
     };
   }
+};
 
-  const ok = result.ok === true;
-  const errors = buildErrorList(result);
-
-  return {
-    ok,
-    errors
-  };
+type PipelineStages = {
+  normalize: NormalizeStage;
+  segment: SegmentStage;
+  extract: ExtractStage;
+  toSoustack: ToSoustackStage;
+  validate: SoustackValidator;
 };
 
-const runSegmentStage = async (
-  segment: (input: unknown, options?: SegmentOptions) => Promise<unknown> | unknown,
-  normalized: unknown,
-  options?: SegmentOptions
-) => {
-  if (options === undefined) {
-    return await segment(normalized);
-  }
+const runPipeline = async (
+  request: PipelineInput,
+  stages: PipelineStages,
+  signal: AbortSignal,
+  stage: (name: string) => void,
+  progress: (event: ProgressEvent) => void
+): Promise<PipelineOutput> => {
+  const sourcePath = request.options?.sourcePath;
+  const output: PipelineOutput = { ok: false, failedStage: null, stages: {}, chunks: [], recipeCount: 0 };
+
+  const format = request.options?.format ?? (isRtf(request.text) ? "rtf" : "text");
+  const prepare = format === "rtf" ? "decode" : "normalize";
+  const prepared = await timeStage(stage, signal, prepare, () =>
+    format === "rtf"
+      ? decodeRtf(request.text)
+      : format === "markdown"
+        ? normalizeMarkdown(request.text)
+        : runNormalizeStage(stages.normalize, request.text, signal)
+  );
+  output.stages[prepare] = prepared;
+  if (!prepared.ok) {
+    output.failedStage = prepare;
+    return output;
+  }
+
+  const decoded = format === "rtf" ? (prepared.output as DecodedRtf) : null;
+  const markdown = format === "markdown" ? (prepared.output as MarkdownDocument) : null;
+  const normalized = decoded ? decoded.text : markdown ? markdown.text : prepared.output;
+  const maxChunks = request.options?.maxChunks;
+  const segmented = await timeStage(stage, signal, "segment", async () => ({
+    chunks: markdown
+      ? segmentMarkdown(markdown, { maxChunks })
+      : extractSegmentChunks(
+          await runSegmentStage(stages.segment, normalized, maxChunks === undefined ? undefined : { maxChunks }, signal)
+        )
+  }));
+  output.stages.segment = segmented;
+  if (!segmented.ok) {
+    output.failedStage = "segment";
+    return output;
+  }
+
+  const lines = resolveNormalizedLines(normalized);
+  const chunks = (segmented.output as SegmentOutput).chunks;
+  for (const [index, chunk] of chunks.entries()) {
+    const record: PipelineChunkRecord = {
+      index,
+      chunk,
+      ...(decoded ? { sourceLines: mapLineRange(decoded, chunk) } : {}),
+      ok: false,
+      failedStage: null,
+      stages: {}
+    };
+    const steps: Array<[PipelineChunkStage, (previous: unknown) => unknown, ((output: unknown) => boolean)?]> = [
+      [
+        "extract",
+        () =>
+          stages.extract({ startLine: chunk.startLine, endLine: chunk.endLine, titleGuess: chunk.titleGuess }, lines, {
+            signal
+          })
+      ],
+      [
+        "toSoustack",
+        (intermediate) => stages.toSoustack(intermediate as IntermediateRecipeInput, { sourcePath, signal })
+      ],
+      [
+        "canonicalize",
+        (recipe) => {
+          const intermediate = record.stages.extract?.output;
+          const title = isRecord(intermediate) ? intermediate.title : undefined;
+          return canonicalizeRecipe(
+            withMetadata(recipe, markdown?.metadata) as object,
+            ensureSlug(title, title, sourcePath ?? "")
+          );
+        }
+      ],
+      [
+        "validate",
+        async (recipe) => normalizeValidationResult(await stages.validate(recipe as object, { signal })),
+        (result) => (result as ValidationResult).ok
+      ]
+    ];
+
+    let previous: unknown = chunk;
+    for (const [name, run, passed] of steps) {
+      const result = await timeStage(stage, signal, name, () => run(previous), passed);
+      record.stages[name] = result;
+      if (!result.ok) {
+        record.failedStage = name;
+        break;
+      }
+      previous = result.output;
+    }
 
-  try {
-    return await segment(normalized, options);
-  } catch (error) {
-    return await segment({ text: normalized, options });
+    record.ok = record.failedStage === null;
+    output.chunks.push(record);
+    progress({ type: "chunk_completed", index, total: chunks.length, ok: record.ok, failedStage: record.failedStage });
   }
-};
 
-const extractSegmentChunks = (value: unknown): SegmentChunk[] => {
-  if (Array.isArray(value)) {
-    return value as SegmentChunk[];
-  }
-
-  if (isRecord(value) && Array.isArray(value.chunks)) {
-    return value.chunks as SegmentChunk[];
-  }
-
-  return [];
-};
-
-const resolveNormalizedLines = (normalized: unknown): string[] => {
-  if (typeof normalized === "string") {
-    return normalized.split("\n");
-  }
-
-  if (isRecord(normalized) && typeof normalized.text === "string") {
-    return normalized.text.split("\n");
-  }
-
-  return [];
+  output.recipeCount = output.chunks.filter((chunk) => chunk.ok).length;
+  output.ok = output.chunks.every((chunk) => chunk.ok);
+  return output;
 };
 
-const tools: Record<string, ToolHandler> = {
-  ping: async () => ({ pong: true }),
-  "ingest.meta": async () => {
-    const [mcpVersion, soustackIngestVersion, soustackVersion] = await Promise.all([
-      readPackageVersion(),
-      readPackageVersion("soustack-ingest"),
-      readPackageVersion("soustack")
-    ]);
-
-    return {
-      mcpVersion: mcpVersion ?? "unknown",
-      soustackIngestVersion,
-      soustackVersion,
-      supportedInputKinds: [...supportedInputKinds],
-      timestamp: new Date().toISOString()
-    };
+const builtinTools: Record<string, ToolDefinition> = {
+  ping: {
+    description: "Health check for the server.",
+    inputSchema: emptyInputSchema,
+    outputSchema: pingOutputSchema,
+    handler: async () => ({ pong: true })
   },
-  "ingest.document": async (input) => {
-    const parsed = parseIngestInput(input);
-    if (!parsed.value) {
+  "server.status": {
+    description: "Reports the request scheduler's concurrency, queue depth and backpressure state.",
+    inputSchema: emptyInputSchema,
+    outputSchema: statusOutputSchema,
+    immediate: true,
+    handler: async (_input, { session }) => ({ scheduler: session.stats() })
+  },
+  "tools.describe": {
+    description: "Returns the input and output JSON Schemas of every tool.",
+    inputSchema: describeInputSchema,
+    outputSchema: describeOutputSchema,
+    handler: async (input, { tools }) => {
+      const tool = parseInput(describeInputSchema, input, () => input.tool as string | undefined, () =>
+        typeof input.tool === "string" && !tools.get(input.tool)
+          ? [{ pointer: "/tool", message: `Tool \"${input.tool}\" is not available.` }]
+          : []
+      );
+      const names = tool === undefined ? tools.names() : [tool];
+
       return {
-        ok: false,
-        source: parsed.source,
-        errors: parsed.errors
+        tools: names.map((name) => {
+          const definition = tools.get(name) as ToolDefinition;
+          return {
+            name,
+            description: definition.description,
+            inputSchema: definition.inputSchema,
+            outputSchema: definition.outputSchema
+          };
+        })
       };
     }
+  },
+  "config.show": {
+    description: "Returns the merged server configuration and the config file it was read from.",
+    inputSchema: emptyInputSchema,
+    outputSchema: configShowOutputSchema,
+    handler: async (_input, { session }) => session.config()
+  },
+  "ingest.meta": {
+    description: "Returns versions, supported input kinds and the resolved module adapters.",
+    inputSchema: emptyInputSchema,
+    outputSchema: metaOutputSchema,
+    handler: async (_input, { backend }) => {
+      const [mcpVersion, adapters] = await Promise.all([readPackageVersion(), describeAdapters(backend.profile)]);
+      const ingest = adapters.ingest.available ? adapters.ingest : null;
+      const validator = adapters.validator.available ? adapters.validator : null;
+      const declaredInputKinds = ingest?.declares.inputKinds ?? null;
+      const decodedKinds = ingest ? decodedInputKinds(ingest) : [];
 
-    try {
-      const ingestModule = (await import(resolveIngestModuleName())) as Record<string, unknown>;
-      const handler = resolveIngestHandler(ingestModule);
-      const soustackModule = (await import(resolveSoustackModuleName())) as Record<string, unknown>;
-      const validator = resolveSoustackValidator(soustackModule);
-      const result = await handler(buildIngestRequest(parsed.value));
-      return await normalizeIngestResult(result, parsed.value, validator);
-    } catch (error) {
       return {
-        ok: false,
-        source: parsed.source,
-        errors: [error instanceof Error ? error.message : String(error)]
+        mcpVersion: mcpVersion ?? "unknown",
+        soustackIngestVersion: ingest?.package?.version ?? null,
+        soustackVersion: validator?.package?.version ?? null,
+        supportedInputKinds: declaredInputKinds
+          ? [...declaredInputKinds, ...decodedKinds]
+          : [...new Set([...defaultInputKinds, ...decodedKinds])],
+        capabilities: {
+          stages: ingest ? Object.keys(ingest.stages).filter((stage) => ingest.stages[stage] !== null) : [],
+          inputKindsDeclared: declaredInputKinds !== null,
+          options: ingest?.declares.options ?? null,
+          validator: validator?.stages.validate ?? null
+        },
+        backend: backend.name,
+        adapters,
+        timestamp: new Date().toISOString()
       };
     }
   },
-  "ingest.segment": async (input) => {
-    const parsed = parseSegmentInput(input);
-    if (!parsed.value) {
+  "ingest.reload": {
+    description: "Re-imports the ingest and validator modules and resolves their stages again.",
+    inputSchema: emptyInputSchema,
+    outputSchema: reloadOutputSchema,
+    handler: async (_input, { backend }) => ({ adapters: await reloadAdapters(backend.profile) })
+  },
+  "ingest.document": {
+    description: "Runs the end-to-end ingest pipeline on a file or directory.",
+    inputSchema: ingestDocumentInputSchema,
+    outputSchema: ingestDocumentOutputSchema,
+    legacyFailure: (error, input) => {
+      const { recipes, emitted } = error.details;
       return {
-        chunks: [],
-        errors: parsed.errors
+        ok: false,
+        source: resolveSource(input),
+        ...(recipes ? { recipes } : {}),
+        ...(emitted ? { emitted } : {}),
+        errors: legacyErrorList(error)
       };
-    }
+    },
+    handler: async (input, { signal, progress, stage, backend, resolvePath }) => {
+      const request = parseIngestInput(input);
+      resolvePath(request.inputPath, "/inputPath");
+      if (request.outDir) {
+        resolvePath(request.outDir, "/outDir");
+      }
+      const ingest = await loadAdapter("ingest", backend.profile);
+      const moduleHandler = ingest.stage<IngestHandler>("ingest");
+      const decodedKinds = decodedInputKinds(ingest);
+      const handler = (kind: string | null): IngestHandler =>
+        kind !== null && decodedKinds.includes(kind) ? createDecodedIngestHandler(ingest, kind, stage) : moduleHandler;
+      const validator = (await loadAdapter("validator", backend.profile)).stage<SoustackValidator>("validate");
+      const context = { signal, progress, stage };
+      progress({ type: "started", inputPath: request.inputPath });
+      const { directory, kind } = await resolveInputKind(request.inputPath);
+      if (directory && kind === null) {
+        const declared = ingest.declares.inputKinds ?? defaultInputKinds;
+        const kinds = [...new Set([...declared, ...decodedKinds])];
+        return await reportCompletion(progress, () =>
+          ingestDirectory(request, { ...context, handler, validator, kinds, resolvePath })
+        );
+      }
 
-    try {
-      const ingestModule = (await import(resolveIngestModuleName())) as Record<string, unknown>;
-      const normalize = resolveNormalizeStage(ingestModule);
-      const segment = resolveSegmentStage(ingestModule);
-      const normalized = await runNormalizeStage(normalize, parsed.value.text);
-      const segmented = await runSegmentStage(segment, normalized, parsed.value.options);
-      const chunks = extractSegmentChunks(segmented);
-      return { chunks };
-    } catch (error) {
-      return {
-        chunks: [],
-        errors: [error instanceof Error ? error.message : String(error)]
-      };
+      const result = await runIngestHandler(handler(kind), request, context);
+      return await reportCompletion(progress, () =>
+        normalizeIngestResult(result, request, validator, signal, progress)
+      );
     }
   },
-  "ingest.extract": async (input) => {
-    const parsed = parseExtractInput(input);
-    if (!parsed.value) {
-      return {
-        intermediate: null,
-        errors: parsed.errors
-      };
+  "ingest.segment": {
+    description: "Segments raw text into chunks using the soustack-ingest module or the built-in Markdown segmenter.",
+    inputSchema: segmentInputSchema,
+    outputSchema: segmentOutputSchema,
+    legacyFailure: (error) => ({ chunks: [], errors: legacyErrorList(error) }),
+    handler: async (input, { signal, stage, backend }) => {
+      const request = parseSegmentInput(input);
+      const { format, ...options } = request.options ?? {};
+      if (format === "markdown") {
+        const markdown = await runStage(stage, "normalize", () => normalizeMarkdown(request.text));
+        signal.throwIfAborted();
+        return { chunks: await runStage(stage, "segment", () => segmentMarkdown(markdown, options)) };
+      }
+      const ingest = await loadAdapter("ingest", backend.profile);
+      const normalize = ingest.stage<NormalizeStage>("normalize");
+      const segment = ingest.stage<SegmentStage>("segment");
+      const normalized = await runStage(stage, "normalize", () => runNormalizeStage(normalize, request.text, signal));
+      signal.throwIfAborted();
+      const segmented = await runStage(stage, "segment", () =>
+        runSegmentStage(segment, normalized, options, signal)
+      );
+      return { chunks: extractSegmentChunks(segmented) };
     }
-
-    try {
-      const ingestModule = (await import(resolveIngestModuleName())) as Record<string, unknown>;
-      const normalize = resolveNormalizeStage(ingestModule);
-      const extract = resolveExtractStage(ingestModule);
-      const normalized = await runNormalizeStage(normalize, parsed.value.text);
+  },
+  "ingest.extract": {
+    description: "Extracts an intermediate recipe from a chunk, optionally normalizing Markdown first.",
+    inputSchema: extractInputSchema,
+    outputSchema: extractOutputSchema,
+    legacyFailure: (error) => ({ intermediate: null, errors: legacyErrorList(error) }),
+    handler: async (input, { signal, stage, backend }) => {
+      const request = parseExtractInput(input);
+      const ingest = await loadAdapter("ingest", backend.profile);
+      const extract = ingest.stage<ExtractStage>("extract");
+      const normalized = await runStage(stage, "normalize", () =>
+        request.options?.format === "markdown"
+          ? normalizeMarkdown(request.text).text
+          : runNormalizeStage(ingest.stage<NormalizeStage>("normalize"), request.text, signal)
+      );
+      signal.throwIfAborted();
       const lines = resolveNormalizedLines(normalized);
-      const intermediate = await extract(parsed.value.chunk, lines);
+      const intermediate = await runStage(stage, "extract", () => extract(request.chunk, lines, { signal }));
       return { intermediate: intermediate as IntermediateRecipe };
-    } catch (error) {
-      return {
-        intermediate: null,
-        errors: [error instanceof Error ? error.message : String(error)]
-      };
     }
   },
-  "ingest.toSoustack": async (input) => {
-    const parsed = parseToSoustackInput(input);
-    if (!parsed.value) {
-      return {
-        recipe: null,
-        errors: parsed.errors
-      };
-    }
-
-    try {
-      const ingestModule = (await import(resolveIngestModuleName())) as Record<string, unknown>;
-      const toSoustack = resolveToSoustackStage(ingestModule);
-      const recipe = await toSoustack(parsed.value.intermediate, parsed.value.options);
-      const slug = ensureSlug(parsed.value.intermediate.title, parsed.value.intermediate.title, parsed.value.options?.sourcePath ?? "");
+  "ingest.toSoustack": {
+    description: "Converts an intermediate recipe into a Soustack recipe.",
+    inputSchema: toSoustackInputSchema,
+    outputSchema: toSoustackOutputSchema,
+    legacyFailure: (error) => ({ recipe: null, errors: legacyErrorList(error) }),
+    handler: async (input, { signal, stage, backend }) => {
+      const request = parseToSoustackInput(input);
+      const toSoustack = (await loadAdapter("ingest", backend.profile)).stage<ToSoustackStage>("toSoustack");
+      const recipe = await runStage(stage, "toSoustack", () =>
+        toSoustack(request.intermediate, { ...request.options, signal })
+      );
+      const slug = ensureSlug(request.intermediate.title, request.intermediate.title, request.options?.sourcePath ?? "");
       return { recipe: canonicalizeRecipe(recipe as object, slug) } as ToSoustackOutput;
-    } catch (error) {
-      return {
-        recipe: null,
-        errors: [error instanceof Error ? error.message : String(error)]
-      };
     }
   },
-  "ingest.validate": async (input) => {
-    const parsed = parseValidateInput(input);
-    if (!parsed.value) {
-      return {
-        ok: false,
-        errors: parsed.errors
-      };
-    }
+  "ingest.validate": {
+    description: "Validates a Soustack recipe payload.",
+    inputSchema: validateInputSchema,
+    outputSchema: validateOutputSchema,
+    legacyFailure: (error) => ({ ok: false, errors: legacyErrorList(error) }),
+    handler: async (input, { signal, stage, backend }) => {
+      const request = parseValidateInput(input);
+      const validate = (await loadAdapter("validator", backend.profile)).stage<SoustackValidator>("validate");
+      const result = normalizeValidationResult(
+        await runStage(stage, "validate", () => validate(request.recipe, { signal }))
+      );
+      if (!result.ok) {
+        throw validationFailed(result.errors);
+      }
 
-    try {
-      const soustackModule = (await import(resolveSoustackModuleName())) as Record<string, unknown>;
-      const validate = resolveSoustackValidator(soustackModule);
-      const result = await validate(parsed.value.recipe);
-      return normalizeValidationResult(result);
-    } catch (error) {
-      return {
-        ok: false,
-        errors: [error instanceof Error ? error.message : String(error)]
+      return result;
+    }
+  },
+  "ingest.pipeline": {
+    description: "Runs every ingest stage on raw text and reports each stage's output, timing and errors per chunk.",
+    inputSchema: pipelineInputSchema,
+    outputSchema: pipelineOutputSchema,
+    handler: async (input, { signal, stage, progress, backend }) => {
+      const request = parsePipelineInput(input);
+      const ingest = await loadAdapter("ingest", backend.profile);
+      const stages: PipelineStages = {
+        normalize: ingest.stage<NormalizeStage>("normalize"),
+        segment: ingest.stage<SegmentStage>("segment"),
+        extract: ingest.stage<ExtractStage>("extract"),
+        toSoustack: ingest.stage<ToSoustackStage>("toSoustack"),
+        validate: (await loadAdapter("validator", backend.profile)).stage<SoustackValidator>("validate")
       };
+      return await runPipeline(request, stages, signal, stage, progress);
     }
   }
 };
@@ -1043,6 +1471,12 @@ const buildSuccess = (id: string, output: Record<string, unknown>): SuccessRespo
   output
 });
 
+const buildProgressNotification = (id: string, progress: ProgressEvent): ProgressNotification => ({
+  id,
+  event: "progress",
+  progress
+});
+
 const isRequest = (value: unknown): value is Request => {
   if (!value || typeof value !== "object") {
     return false;
@@ -1057,73 +1491,865 @@ const isRequest = (value: unknown): value is Request => {
   );
 };
 
-const writeResponse = (output: NodeJS.WritableStream, response: Response): void => {
-  output.write(`${JSON.stringify(response)}\n`);
+const buildAbortError = (reason: unknown, tool: string, stage: string | undefined): ErrorDetails => {
+  if (isRecord(reason) && reason.code === "timeout") {
+    const timeoutMs = Number(reason.timeoutMs);
+    return {
+      code: "timeout",
+      message: stage
+        ? `Tool \"${tool}\" timed out after ${timeoutMs}ms during the ${stage} stage.`
+        : `Tool \"${tool}\" timed out after ${timeoutMs}ms.`,
+      details: { tool, stage: stage ?? null, timeoutMs }
+    };
+  }
+
+  if (isRecord(reason) && reason.code === "shutdown") {
+    return {
+      code: "shutdown",
+      message: "Request was abandoned because the server is shutting down."
+    };
+  }
+
+  return {
+    code: "cancelled",
+    message: "Request was cancelled."
+  };
 };
 
-export const startServer = ({ input, output }: ServerOptions): void => {
-  const rl = readline.createInterface({
-    input,
-    crlfDelay: Infinity
+const runUntilAborted = <T>(run: () => Promise<T> | T, signal: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve()
+      .then(run)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
   });
 
-  rl.on("line", async (line: string) => {
-    const trimmed = line.trim();
+const applyInputDefaults = (
+  input: Record<string, unknown>,
+  definition: ToolDefinition,
+  { options: defaultOptions = {}, ...fields }: ToolDefaults
+): Record<string, unknown> => {
+  const properties = definition.inputSchema.properties ?? {};
+  const filled = { ...input };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined && Object.hasOwn(properties, key) && filled[key] === undefined) {
+      filled[key] = value;
+    }
+  });
+
+  const known = Object.keys(properties.options?.properties ?? {}).filter((key) => Object.hasOwn(defaultOptions, key));
+  if (known.length === 0 || (filled.options !== undefined && !isRecord(filled.options))) {
+    return filled;
+  }
+
+  const options = Object.fromEntries(known.map((key) => [key, defaultOptions[key]]));
+  return { ...filled, options: { ...options, ...(filled.options as Record<string, unknown> | undefined) } };
+};
+
+const selectBackend = (
+  input: Record<string, unknown>,
+  definition: ToolDefinition,
+  backends: Record<string, BackendProfile>,
+  fallback: ToolBackend,
+  defaults: ToolDefaults
+): { input: Record<string, unknown>; backend: ToolBackend } => {
+  const { backend: name, ...rest } = input;
+  if (name !== undefined && (typeof name !== "string" || !Object.hasOwn(backends, name))) {
+    throw invalidInput([{ pointer: "/backend", message: `Backend \"${String(name)}\" is not configured.` }]);
+  }
+
+  const backend = name === undefined ? fallback : { name, profile: backends[name] };
+  const withProfile = applyInputDefaults(rest, definition, { options: backend.profile.options });
+  return { input: applyInputDefaults(withProfile, definition, defaults), backend };
+};
+
+const dispatchTool = async (
+  id: string,
+  tool: string,
+  toolInput: Record<string, unknown>,
+  {
+    backends,
+    defaults,
+    ...options
+  }: Omit<ToolContext, "stage"> & { backends: Record<string, BackendProfile>; defaults: ToolDefaults },
+  legacyErrors = false
+): Promise<Response> => {
+  const { signal } = options;
+  let currentStage: string | undefined;
+  const context: ToolContext = {
+    ...options,
+    stage: (name) => {
+      currentStage = name;
+    }
+  };
+  const definition = options.tools.get(tool);
+  if (!definition) {
+    return buildError(id, {
+      code: "tool_not_found",
+      message: `Tool \"${tool}\" is not available.`
+    });
+  }
+
+  try {
+    const result = await runUntilAborted(
+      () =>
+        applyMiddleware(options.tools.middleware, { id, tool, input: toolInput, context }, (input) => {
+          const selected = selectBackend(input, definition, backends, context.backend, defaults);
+          const issues = validateSchema(definition.inputSchema, selected.input);
+          if (issues.length > 0) {
+            throw invalidInput(issues);
+          }
+          return definition.handler(selected.input, { ...context, backend: selected.backend });
+        }),
+      signal
+    );
+    return buildSuccess(id, result);
+  } catch (error) {
+    if (signal.aborted) {
+      return buildError(id, buildAbortError(signal.reason, tool, currentStage));
+    }
+
+    if (error instanceof ToolError) {
+      return legacyErrors && definition.legacyFailure
+        ? buildSuccess(id, definition.legacyFailure(error, toolInput))
+        : buildError(id, toErrorDetails(error));
+    }
+
+    return buildError(id, {
+      code: "tool_error",
+      message: "Tool execution failed.",
+      details: { error: error instanceof Error ? error.message : String(error) }
+    });
+  }
+};
+
+const isCancelRequest = (request: Request): boolean => request.tool === cancelTool;
+
+const isShutdownRequest = (request: Request): boolean => request.tool === shutdownTool;
+
+const isHelloRequest = (request: Request): boolean => request.tool === helloTool;
+
+const isBatchRequest = (request: Request): boolean => request.tool === batchTool;
+
+type BatchItem = { request: Request; error?: undefined } | { request?: undefined; error: ErrorResponse };
+
+const negotiateEnvelopeVersion = (requested: string | undefined): string | null => {
+  if (requested === undefined) {
+    return latestEnvelopeVersion;
+  }
+
+  const compatible = envelopeVersions.filter((version) => Number(version) <= Number(requested));
+  return compatible.length > 0 ? compatible[compatible.length - 1] : null;
+};
+
+const probeModule = async (kind: AdapterKind, profile: BackendProfile): Promise<HelloModule> => {
+  const adapter = await describeAdapter(kind, profile);
+  return {
+    module: adapter.module,
+    available: adapter.available,
+    version: adapter.available ? adapter.package?.version ?? null : null
+  };
+};
+
+const listToolDescriptors = (registry: ToolRegistry): JsonRpcToolDescriptor[] =>
+  registry.names().map((name) => {
+    const definition = registry.get(name) as ToolDefinition;
+    return {
+      name,
+      description: definition.description,
+      inputSchema: definition.inputSchema,
+      outputSchema: definition.outputSchema
+    };
+  });
+
+type SessionOptions = {
+  protocol?: ProtocolMode;
+  timeouts?: Record<string, number>;
+  stats: () => SchedulerStats;
+  legacyErrors?: boolean;
+  negotiate?: boolean;
+  tools?: Record<string, ToolRegistration>;
+  middleware?: ToolMiddleware[];
+  backends?: Record<string, BackendProfile>;
+  defaultBackend?: string;
+  modules?: ModulePaths;
+  defaults?: ToolDefaults;
+  allowedRoots?: string[];
+  logger?: Logger;
+  config?: ConfigSnapshot;
+  record?: NodeJS.WritableStream;
+  onShutdown?: () => void;
+};
+
+export type ShutdownOptions = {
+  deadlineMs?: number;
+};
+
+export type ShutdownReport = {
+  finished: number;
+  abandoned: number;
+};
+
+type MessagePlan = {
+  run: () => Promise<unknown> | unknown;
+  queued: boolean;
+};
+
+type PlanOptions = {
+  notify: (message: unknown) => void;
+  progress?: boolean;
+};
+
+export type Session = {
+  plan: (text: string, options: PlanOptions) => MessagePlan | null;
+  call: (id: string, tool: string, input: Record<string, unknown>, options?: ToolCallOptions) => Promise<Response>;
+  cancel: (id: string) => boolean;
+  drain: (options?: ShutdownOptions) => Promise<ShutdownReport>;
+};
+
+export const createSession = ({
+  protocol = "auto",
+  timeouts,
+  stats,
+  legacyErrors = false,
+  negotiate = true,
+  tools,
+  middleware,
+  backends = {},
+  defaultBackend,
+  modules = {},
+  defaults = {},
+  allowedRoots = [],
+  logger = silentLogger,
+  config = { file: null, config: {} },
+  record,
+  onShutdown
+}: SessionOptions): Session => {
+  if (defaultBackend !== undefined && !Object.hasOwn(backends, defaultBackend)) {
+    throw new Error(`Default backend \"${defaultBackend}\" is not configured.`);
+  }
+
+  const registry = createToolRegistry({
+    builtin: builtinTools,
+    tools,
+    middleware,
+    reserved: controlTools,
+    backends: Object.keys(backends)
+  });
+  const profiles = Object.fromEntries(
+    Object.entries(backends).map(([name, profile]) => [
+      name,
+      { ...profile, ingest: profile.ingest ?? modules.ingest, validator: profile.validator ?? modules.validator }
+    ])
+  );
+  const defaultProfile: ToolBackend =
+    defaultBackend === undefined
+      ? { name: null, profile: { ...modules } }
+      : { name: defaultBackend, profile: profiles[defaultBackend] };
+  const roots = allowedRoots.map((root) => path.resolve(root));
+  const realRoots = roots.map(realTarget);
+  const inFlight = new Map<string, AbortController>();
+  let legacy = legacyErrors;
+  let granted: Set<EnvelopeFeature> | undefined;
+  const drainWaiters: Array<() => void> = [];
+  const session = { stats, config: () => config };
+
+  const resolvePath = (value: string, pointer: string): string => {
+    const resolved = path.resolve(value);
+    const real = roots.length === 0 ? resolved : realTarget(resolved);
+    const allowed =
+      roots.length === 0 ||
+      realRoots.some((root) => real === root || real.startsWith(root.endsWith(path.sep) ? root : `${root}${path.sep}`));
+    if (!allowed) {
+      throw pathNotAllowed(pointer, value, roots);
+    }
+    return resolved;
+  };
+  let draining: Promise<ShutdownReport> | undefined;
+
+  const accept = (id: string): AbortController => {
+    const controller = new AbortController();
+    if (draining) {
+      controller.abort({ code: "shutdown" } satisfies AbortReason);
+    }
+    inFlight.set(id, controller);
+    return controller;
+  };
+
+  const release = (id: string, controller: AbortController): void => {
+    if (inFlight.get(id) === controller) {
+      inFlight.delete(id);
+    }
+    if (inFlight.size === 0) {
+      drainWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  };
+
+  const runTool = async (
+    id: string,
+    tool: string,
+    toolInput: Record<string, unknown>,
+    { onProgress, timeoutMs }: ToolCallOptions = {}
+  ): Promise<Response> => {
+    const controller = inFlight.get(id) ?? accept(id);
+    let settled = false;
+    const limit = timeoutMs ?? timeouts?.[tool] ?? timeouts?.["*"] ?? defaultTimeouts[tool];
+    const timer =
+      limit && limit > 0
+        ? setTimeout(() => controller.abort({ code: "timeout", timeoutMs: limit } satisfies AbortReason), limit)
+        : undefined;
+
+    const progress = (event: ProgressEvent) => {
+      if (onProgress && !settled && !controller.signal.aborted) {
+        onProgress(event);
+      }
+    };
+
+    const started = Date.now();
+    try {
+      const response = await dispatchTool(
+        id,
+        tool,
+        toolInput,
+        {
+          signal: controller.signal,
+          progress,
+          session,
+          tools: registry,
+          backend: defaultProfile,
+          resolvePath,
+          backends: profiles,
+          defaults
+        },
+        legacy
+      );
+      logger.debug("tool finished", { id, tool, ok: response.ok, durationMs: Date.now() - started });
+      if (!response.ok && response.error.code === "tool_error") {
+        logger.warn("tool failed", { id, tool, error: response.error.details?.error });
+      }
+      record?.write(`${JSON.stringify(toTranscriptEntry(tool, toolInput, response))}\n`);
+      return response;
+    } finally {
+      clearTimeout(timer);
+      settled = true;
+      release(id, controller);
+    }
+  };
+
+  const cancel = (id: string): boolean => {
+    const controller = inFlight.get(id);
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+
+    controller.abort({ code: "cancelled" } satisfies AbortReason);
+    return true;
+  };
+
+  const settled = (): Promise<void> =>
+    inFlight.size === 0 ? Promise.resolve() : new Promise<void>((resolve) => drainWaiters.push(resolve));
+
+  const settledWithin = async (deadlineMs: number): Promise<void> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      settled(),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, deadlineMs);
+      })
+    ]);
+    clearTimeout(timer);
+  };
+
+  const drain = ({ deadlineMs = defaultShutdownDeadlineMs }: ShutdownOptions = {}): Promise<ShutdownReport> => {
+    draining ??= (async () => {
+      const pending = inFlight.size;
+      const deadline = Date.now() + deadlineMs;
+      await settledWithin(deadlineMs);
+
+      let abandoned = 0;
+      inFlight.forEach((controller) => {
+        if (!controller.signal.aborted) {
+          controller.abort({ code: "shutdown" } satisfies AbortReason);
+          abandoned += 1;
+        }
+      });
+      await settledWithin(Math.max(deadline - Date.now(), 0));
+      inFlight.clear();
+
+      return { finished: pending - abandoned, abandoned };
+    })();
+
+    return draining;
+  };
+
+  const allows = (feature: EnvelopeFeature): boolean => !granted || granted.has(feature);
+
+  const hello = async (id: string, input: Record<string, unknown>): Promise<Response> => {
+    const { protocolVersion, features } = input;
+    if (protocolVersion !== undefined && typeof protocolVersion !== "string") {
+      return buildError(id, {
+        code: "invalid_request",
+        message: "protocolVersion must be a string when provided."
+      });
+    }
+
+    if (features !== undefined && (!Array.isArray(features) || features.some((feature) => typeof feature !== "string"))) {
+      return buildError(id, {
+        code: "invalid_request",
+        message: "features must be an array of strings when provided."
+      });
+    }
+
+    const version = negotiateEnvelopeVersion(protocolVersion);
+    if (version === null) {
+      return buildError(id, {
+        code: "unsupported_version",
+        message: `Protocol version "${String(protocolVersion)}" is not supported.`,
+        details: { supportedVersions: [...envelopeVersions] }
+      });
+    }
+    const requested = (features as string[] | undefined) ?? supportedFeatures;
+    const enabled = version === "1.0" ? [] : supportedFeatures.filter((feature) => requested.includes(feature));
+    if (negotiate) {
+      granted = new Set(enabled);
+      legacy = legacyErrors || version === "1.0";
+    }
+
+    const [serverVersion, ingest, validator] = await Promise.all([
+      readPackageVersion(),
+      probeModule("ingest", defaultProfile.profile),
+      probeModule("validator", defaultProfile.profile)
+    ]);
+    const output: HelloOutput = {
+      protocolVersion: version,
+      supportedVersions: [...envelopeVersions],
+      server: { name: serverName, version: serverVersion ?? "unknown" },
+      features: {
+        streaming: enabled.includes("streaming"),
+        cancellation: enabled.includes("cancellation"),
+        batching: enabled.includes("batching")
+      },
+      tools: registry.names(),
+      errorCodes: [...serverErrorCodes, ...toolErrorCodes],
+      modules: { ingest, validator }
+    };
+
+    return buildSuccess(id, output);
+  };
+
+  const planJsonRpc = (parsed: unknown, { notify }: PlanOptions): MessagePlan => {
+    const call = isRecord(parsed) && parsed.method === "tools/call" && parsed.id != null ? parsed : undefined;
+    const definition = call && isRecord(call.params) ? registry.get(String(call.params.name)) : undefined;
+    const callId = call ? String(call.id) : undefined;
+    if (callId !== undefined && inFlight.has(callId)) {
+      const message = buildJsonRpcError(call?.id as JsonRpcId, {
+        code: jsonRpcErrorCodes.invalidRequest,
+        message: duplicateIdMessage(callId),
+        data: { code: "invalid_request" }
+      });
+      return { run: () => message, queued: false };
+    }
+    const controller = callId === undefined ? undefined : accept(callId);
+
+    const handlers: JsonRpcHandlerOptions = {
+      serverInfo: async () => ({
+        name: serverName,
+        version: (await readPackageVersion()) ?? "unknown"
+      }),
+      listTools: () => listToolDescriptors(registry),
+      callTool: runTool,
+      cancel,
+      notify
+    };
+
+    return {
+      run: async () => {
+        try {
+          return await handleJsonRpcMessage(parsed, handlers);
+        } finally {
+          if (callId !== undefined && controller) {
+            release(callId, controller);
+          }
+        }
+      },
+      queued: Boolean(call) && !definition?.immediate
+    };
+  };
+
+  const runRequest = (request: Request, { notify, progress }: PlanOptions): Promise<Response> => {
+    const { id, tool, input: toolInput } = request;
+    const onProgress =
+      (request.progress === true || progress) && allows("streaming")
+        ? (event: ProgressEvent) => notify(buildProgressNotification(id, event))
+        : undefined;
+    const timeoutMs = typeof request.timeoutMs === "number" && request.timeoutMs >= 0 ? request.timeoutMs : undefined;
+    return runTool(id, tool, toolInput, { onProgress, timeoutMs });
+  };
+
+  const acceptBatch = (entries: unknown[]): BatchItem[] => {
+    const seen = new Set<string>();
+    return entries.map((entry) => {
+      if (!isRequest(entry)) {
+        return {
+          error: buildError(null, {
+            code: "invalid_request",
+            message: "Request did not match the expected shape."
+          })
+        };
+      }
+
+      if (controlTools.includes(entry.tool)) {
+        return {
+          error: buildError(entry.id, {
+            code: "invalid_request",
+            message: `\"${entry.tool}\" cannot be used inside a batch.`
+          })
+        };
+      }
+
+      if (seen.has(entry.id) || inFlight.has(entry.id)) {
+        return {
+          error: buildError(entry.id, {
+            code: "invalid_request",
+            message: `Request id \"${entry.id}\" is already in use.`
+          })
+        };
+      }
+
+      seen.add(entry.id);
+      accept(entry.id);
+      return { request: entry };
+    });
+  };
+
+  const skip = (request: Request): ErrorResponse => {
+    const controller = inFlight.get(request.id);
+    if (controller) {
+      release(request.id, controller);
+    }
+
+    return buildError(request.id, {
+      code: "skipped",
+      message: "Skipped because an earlier request in the batch failed."
+    });
+  };
+
+  const runBatch = async (items: BatchItem[], stopOnError: boolean, options: PlanOptions): Promise<Response[]> => {
+    if (!stopOnError) {
+      const responses: Response[] = [];
+      let next = 0;
+      const worker = async (): Promise<void> => {
+        while (next < items.length) {
+          const index = next;
+          next += 1;
+          const item = items[index];
+          responses[index] = item.error ?? (await runRequest(item.request, options));
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(stats().concurrency, items.length) }, worker));
+      return responses;
+    }
+
+    const responses: Response[] = [];
+    let failed = false;
+    for (const item of items) {
+      if (failed) {
+        responses.push(item.error ?? skip(item.request));
+        continue;
+      }
+
+      const response = item.error ?? (await runRequest(item.request, options));
+      responses.push(response);
+      failed = !response.ok;
+    }
+
+    return responses;
+  };
+
+  const planBatchTool = (parsed: Request, options: PlanOptions): MessagePlan => {
+    const { id, input: toolInput } = parsed;
+    const { requests, stopOnError } = toolInput;
+    if (!allows("batching")) {
+      const message = buildError(id, {
+        code: "invalid_request",
+        message: "Batching was not negotiated in the hello handshake."
+      });
+      return { run: () => message, queued: false };
+    }
+
+    if (!Array.isArray(requests) || (stopOnError !== undefined && typeof stopOnError !== "boolean")) {
+      const message = buildError(id, {
+        code: "invalid_request",
+        message: "requests must be an array and stopOnError a boolean when provided."
+      });
+      return { run: () => message, queued: false };
+    }
+
+    const items = acceptBatch(requests);
+    const controller = accept(id);
+    controller.signal.addEventListener(
+      "abort",
+      () => items.forEach((item) => item.request && inFlight.get(item.request.id)?.abort(controller.signal.reason)),
+      { once: true }
+    );
+
+    return {
+      run: async () => {
+        try {
+          const responses = await runBatch(items, stopOnError ?? false, options);
+          return buildSuccess(id, {
+            responses,
+            succeeded: responses.filter((response) => response.ok).length,
+            failed: responses.filter((response) => !response.ok).length
+          });
+        } finally {
+          release(id, controller);
+        }
+      },
+      queued: true
+    };
+  };
+
+  const planBatch = (entries: unknown[], options: PlanOptions): MessagePlan => {
+    if (!allows("batching") || entries.length === 0) {
+      const message = buildError(null, {
+        code: "invalid_request",
+        message:
+          entries.length === 0
+            ? "Batch must contain at least one request."
+            : "Batching was not negotiated in the hello handshake."
+      });
+      return { run: () => message, queued: false };
+    }
+
+    const items = acceptBatch(entries);
+    return { run: () => runBatch(items, false, options), queued: true };
+  };
+
+  const planRequest = (parsed: Request, { notify, progress }: PlanOptions): MessagePlan => {
+    const { id, tool, input: toolInput } = parsed;
+    if (isHelloRequest(parsed)) {
+      return { run: () => hello(id, toolInput), queued: false };
+    }
+
+    if (isCancelRequest(parsed)) {
+      return {
+        run: () => {
+          if (!allows("cancellation")) {
+            return buildError(id, {
+              code: "invalid_request",
+              message: "Cancellation was not negotiated in the hello handshake."
+            });
+          }
+
+          if (typeof toolInput.id !== "string" || !toolInput.id) {
+            return buildError(id, {
+              code: "invalid_request",
+              message: "id must be a non-empty string."
+            });
+          }
+
+          return buildSuccess(id, { id: toolInput.id, cancelled: cancel(toolInput.id) });
+        },
+        queued: false
+      };
+    }
+
+    if (isShutdownRequest(parsed)) {
+      return {
+        run: async () => {
+          const { deadlineMs } = toolInput;
+          if (deadlineMs !== undefined && (typeof deadlineMs !== "number" || deadlineMs < 0)) {
+            return buildError(id, {
+              code: "invalid_request",
+              message: "deadlineMs must be a non-negative number when provided."
+            });
+          }
+
+          const report = drain({ deadlineMs });
+          onShutdown?.();
+          return buildSuccess(id, await report);
+        },
+        queued: false
+      };
+    }
+
+    if (inFlight.has(id)) {
+      const message = buildError(id, { code: "invalid_request", message: duplicateIdMessage(id) });
+      return { run: () => message, queued: false };
+    }
+
+    if (isBatchRequest(parsed)) {
+      return planBatchTool(parsed, { notify, progress });
+    }
+
+    accept(id);
+    return {
+      run: () => runRequest(parsed, { notify, progress }),
+      queued: !registry.get(tool)?.immediate
+    };
+  };
+
+  const plan = (text: string, options: PlanOptions): MessagePlan | null => {
+    const trimmed = text.trim();
     if (!trimmed) {
-      return;
+      return null;
     }
 
     let parsed: unknown;
     try {
       parsed = JSON.parse(trimmed);
     } catch (error) {
-      writeResponse(
-        output,
-        buildError(null, {
-          code: "invalid_json",
-          message: "Request was not valid JSON.",
-          details: { error: error instanceof Error ? error.message : String(error) }
-        })
-      );
-      return;
+      const details = { error: error instanceof Error ? error.message : String(error) };
+      const message =
+        protocol === "jsonrpc"
+          ? buildJsonRpcError(null, {
+              code: jsonRpcErrorCodes.parseError,
+              message: "Request was not valid JSON.",
+              data: details
+            })
+          : buildError(null, {
+              code: "invalid_json",
+              message: "Request was not valid JSON.",
+              details
+            });
+      return { run: () => message, queued: false };
+    }
+
+    if (Array.isArray(parsed) && (protocol === "jsonrpc" || (protocol === "auto" && parsed.some(isJsonRpcMessage)))) {
+      const message = buildJsonRpcError(null, {
+        code: jsonRpcErrorCodes.invalidRequest,
+        message: "JSON-RPC batches are not supported."
+      });
+      return { run: () => message, queued: false };
+    }
+
+    if (protocol === "jsonrpc" || (protocol === "auto" && isJsonRpcMessage(parsed))) {
+      return planJsonRpc(parsed, options);
+    }
+
+    if (Array.isArray(parsed)) {
+      return planBatch(parsed, options);
     }
 
     if (!isRequest(parsed)) {
-      writeResponse(
-        output,
-        buildError(null, {
-          code: "invalid_request",
-          message: "Request did not match the expected shape."
-        })
-      );
-      return;
+      const message = buildError(null, {
+        code: "invalid_request",
+        message: "Request did not match the expected shape."
+      });
+      return { run: () => message, queued: false };
     }
 
-    const { id, tool, input: toolInput } = parsed;
-    const handler = tools[tool];
-    if (!handler) {
-      writeResponse(
-        output,
-        buildError(id, {
-          code: "tool_not_found",
-          message: `Tool \"${tool}\" is not available.`
-        })
-      );
-      return;
+    return planRequest(parsed, options);
+  };
+
+  return { plan, call: runTool, cancel, drain };
+};
+
+export type ServerHandle = {
+  shutdown: (options?: ShutdownOptions) => Promise<ShutdownReport>;
+  done: Promise<ShutdownReport>;
+};
+
+const flushOutput = async (output: NodeJS.WritableStream): Promise<void> =>
+  await new Promise<void>((resolve) => {
+    output.write("", () => resolve());
+  });
+
+export type ConfiguredSessionOptions = ConfigServerOptions & Pick<ServerOptions, "logger" | "config" | "record">;
+
+export const configuredSessionOptions = (options: ConfiguredSessionOptions) => ({
+  backends: options.backends,
+  defaultBackend: options.defaultBackend,
+  modules: options.modules,
+  defaults: options.defaults,
+  allowedRoots: options.allowedRoots,
+  logger: options.logger ?? (options.logLevel ? createLogger(options.logLevel) : undefined),
+  config: options.config ?? { file: null, config: configFromServerOptions(options) },
+  record: options.record
+});
+
+export const startServer = (options: ServerOptions): ServerHandle => {
+  const {
+    input,
+    output,
+    protocol = "auto",
+    concurrency,
+    ordered,
+    maxQueue,
+    timeouts,
+    shutdownDeadlineMs,
+    legacyErrors,
+    tools,
+    middleware
+  } = options;
+  const rl = readline.createInterface({
+    input,
+    crlfDelay: Infinity
+  });
+  let closed = false;
+  const scheduler = createScheduler(
+    { concurrency, ordered, maxQueue },
+    {
+      output,
+      pause: () => rl.pause(),
+      resume: () => {
+        if (!closed) {
+          rl.resume();
+        }
+      }
     }
+  );
+  let stopping: Promise<ShutdownReport> | undefined;
+  let finish: (report: ShutdownReport) => void = () => undefined;
+  const done = new Promise<ShutdownReport>((resolve) => {
+    finish = resolve;
+  });
+  const session = createSession({
+    protocol,
+    timeouts,
+    stats: scheduler.stats,
+    legacyErrors,
+    tools,
+    middleware,
+    ...configuredSessionOptions(options),
+    onShutdown: () => rl.close()
+  });
 
-    try {
-      const result = await handler(toolInput);
-      writeResponse(output, buildSuccess(id, result));
-    } catch (error) {
-      writeResponse(
-        output,
-        buildError(id, {
-          code: "tool_error",
-          message: "Tool execution failed.",
-          details: { error: error instanceof Error ? error.message : String(error) }
-        })
-      );
+  const shutdown = ({ deadlineMs = shutdownDeadlineMs }: ShutdownOptions = {}): Promise<ShutdownReport> => {
+    stopping ??= (async () => {
+      const report = session.drain({ deadlineMs });
+      rl.close();
+      await report;
+      await scheduler.idle();
+      await flushOutput(output);
+      if (options.record) {
+        await flushOutput(options.record);
+      }
+      finish(await report);
+      return await report;
+    })();
+
+    return stopping;
+  };
+
+  rl.on("line", (line: string) => {
+    const plan = session.plan(line, { notify: scheduler.write });
+    if (plan) {
+      scheduler.submit(plan.run, { queued: plan.queued });
     }
   });
+  rl.on("close", () => {
+    closed = true;
+    void shutdown();
+  });
+
+  return { shutdown, done };
 };
@@ -0,0 +1,93 @@
+import { createServer } from "node:net";
+import type { Socket } from "node:net";
+import { rm } from "node:fs/promises";
+import { startServer } from "./server.js";
+import type { ServerHandle, ServerOptions, ShutdownOptions, ShutdownReport } from "./server.js";
+
+export type SocketServerOptions = {
+  path?: string;
+  port?: number;
+  host?: string;
+} & Omit<ServerOptions, "input" | "output">;
+
+export type SocketServerHandle = {
+  address: string;
+  connections: () => number;
+  close: (options?: ShutdownOptions) => Promise<ShutdownReport>;
+};
+
+const defaultHost = "127.0.0.1";
+
+export const startSocketServer = async ({
+  path,
+  port = 0,
+  host = defaultHost,
+  ...serverOptions
+}: SocketServerOptions = {}): Promise<SocketServerHandle> => {
+  const connections = new Map<Socket, ServerHandle>();
+
+  const server = createServer({ allowHalfOpen: true }, (socket) => {
+    const handle = startServer({ input: socket, output: socket, ...serverOptions });
+    let inputEnded = false;
+    connections.set(socket, handle);
+    handle.done.then(() => socket.end());
+    socket.on("end", () => {
+      inputEnded = true;
+    });
+    socket.on("close", () => {
+      connections.delete(socket);
+      if (!inputEnded) {
+        void handle.shutdown({ deadlineMs: 0 });
+      }
+    });
+    socket.on("error", () => {
+      void handle.shutdown({ deadlineMs: 0 });
+      socket.destroy();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    if (path) {
+      server.listen(path, () => resolve());
+    } else {
+      server.listen(port, host, () => resolve());
+    }
+  });
+
+  const bound = server.address();
+  const address =
+    path ??
+    (bound && typeof bound === "object"
+      ? `${bound.address.includes(":") ? `[${bound.address}]` : bound.address}:${bound.port}`
+      : String(bound));
+
+  return {
+    address,
+    connections: () => connections.size,
+    close: async (options) => {
+      const closed = new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+      const reports = await Promise.all(
+        [...connections].map(async ([socket, handle]) => {
+          const report = await handle.shutdown(options);
+          socket.destroy();
+          return report;
+        })
+      );
+      await closed;
+      if (path) {
+        await rm(path, { force: true });
+      }
+
+      return reports.reduce(
+        (total, report) => ({
+          finished: total.finished + report.finished,
+          abandoned: total.abandoned + report.abandoned
+        }),
+        { finished: 0, abandoned: 0 }
+      );
+    }
+  };
+};
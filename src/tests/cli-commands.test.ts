@@ -0,0 +1,73 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { exitCodes, runCommand } from "../commands.js";
+
+const modules = {
+  ingest: new URL("./fixtures/soustack-ingest.js", import.meta.url).href,
+  validator: new URL("./fixtures/soustack.js", import.meta.url).href
+};
+
+const run = async (command: "ingest" | "segment" | "validate", args: string[], json = false) => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let printed = "";
+  let reported = "";
+  stdout.on("data", (chunk) => {
+    printed += chunk.toString();
+  });
+  stderr.on("data", (chunk) => {
+    reported += chunk.toString();
+  });
+
+  const code = await runCommand(command, args, { modules, json, stdout, stderr });
+  return { code, printed, reported };
+};
+
+test("one-shot commands run the tool handlers and map failures to exit codes", async () => {
+  const directory = fileURLToPath(new URL("./commands-fixture/", import.meta.url));
+  const document = path.resolve(process.cwd(), "src/tests/fixtures/sample-document.txt");
+  await mkdir(directory, { recursive: true });
+  const valid = path.join(directory, "valid.json");
+  const invalid = path.join(directory, "invalid.json");
+  await writeFile(
+    valid,
+    JSON.stringify({
+      $schema: "https://soustack.dev/schema/recipe-vNext.json",
+      profile: "soustack/recipe-lite",
+      name: "Toast",
+      stacks: { prep: 1 }
+    })
+  );
+  await writeFile(invalid, JSON.stringify({ name: "" }));
+
+  try {
+    const ingest = await run("ingest", [document]);
+    assert.equal(ingest.code, exitCodes.ok);
+    assert.match(ingest.printed, /^Ingested 1 recipe from .*sample-document\.txt\n {2}Simple recipe \(simple-recipe\)\n$/);
+
+    const segment = await run("segment", [document], true);
+    assert.equal(segment.code, exitCodes.ok);
+    assert.equal((JSON.parse(segment.printed) as { chunks: unknown[] }).chunks.length, 3);
+
+    const validate = await run("validate", [valid, invalid]);
+    assert.equal(validate.code, exitCodes.validationFailed);
+    assert.match(validate.printed, /valid\.json: valid\n.*invalid\.json: 4 errors\n {2}\$schema must match soustack vNext\./);
+
+    const validateJson = await run("validate", [invalid], true);
+    assert.equal(validateJson.code, exitCodes.validationFailed);
+    assert.deepEqual(
+      (JSON.parse(validateJson.printed) as Array<{ ok: boolean }>).map((result) => result.ok),
+      [false]
+    );
+
+    const missing = await run("ingest", []);
+    assert.equal(missing.code, exitCodes.usage);
+    assert.match(missing.reported, /^Usage: soustack-mcp-ingest ingest/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
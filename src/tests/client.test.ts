@@ -0,0 +1,64 @@
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryClient } from "../client.js";
+import { ToolError } from "../errors.js";
+import { observed } from "./fixtures/blocking-ingest.js";
+import { fixture } from "./helpers/fixtures.js";
+
+test("the client matches responses by id and exposes typed tool methods", async () => {
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const [pong, segmented] = await Promise.all([
+      client.ping(),
+      client.segment("Pancakes\n\nIngredients:\n- 1 egg", { maxChunks: 1 })
+    ]);
+    assert.deepEqual(pong, { pong: true });
+    assert.deepEqual(segmented.chunks.map((chunk) => chunk.titleGuess), ["Pancakes"]);
+
+    await assert.rejects(
+      client.validate({ name: "" }),
+      (error: unknown) => error instanceof ToolError && error.code === "validation_failed"
+    );
+
+    const notifications = client.notifications();
+    const document = client.call("ingest.document", {
+      inputPath: path.resolve(process.cwd(), "src/tests/fixtures/sample-document.txt")
+    });
+    const events: string[] = [];
+    for await (const event of document.progress) {
+      events.push(event.type);
+    }
+    const output = await document.result;
+    assert.equal(events[0], "started");
+    assert.equal(events.at(-1), "completed");
+    assert.equal(output.ok, true);
+
+    const first = await notifications.next();
+    assert.equal((first.value as Record<string, unknown>).id, document.id);
+    await notifications.return?.();
+  } finally {
+    await client.close();
+  }
+});
+
+test("the client cancels in-flight calls", async () => {
+  const client = createMemoryClient({
+    modules: { ingest: fixture("blocking-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const document = client.call("ingest.document", { inputPath: "/tmp/big" });
+    while (observed.started === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    assert.equal(await document.cancel(), true);
+    await assert.rejects(document.result, (error: unknown) => error instanceof ToolError && error.code === "cancelled");
+  } finally {
+    await client.close();
+  }
+});
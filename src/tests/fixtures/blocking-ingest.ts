@@ -0,0 +1,26 @@
+export const observed = {
+  started: 0,
+  aborted: 0
+};
+
+export const ingestDocument = async ({ signal }: { signal?: AbortSignal }): Promise<never> => {
+  observed.started += 1;
+
+  return await new Promise<never>((_resolve, reject) => {
+    const onAbort = () => {
+      observed.aborted += 1;
+      reject(new Error("ingest aborted"));
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+export default {
+  ingestDocument
+};
@@ -0,0 +1,20 @@
+const delayFromPath = (inputPath: string): number => Number(inputPath.split("/").pop()) || 0;
+
+export const ingestDocument = async ({ inputPath, signal }: { inputPath: string; signal?: AbortSignal }) => {
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, delayFromPath(inputPath));
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new Error("ingest aborted"));
+      },
+      { once: true }
+    );
+  });
+  return { ok: true, recipes: [] };
+};
+
+export default {
+  ingestDocument
+};
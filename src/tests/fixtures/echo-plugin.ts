@@ -0,0 +1,12 @@
+import type { ServerBuilder } from "../../embed.js";
+
+export const register = (server: ServerBuilder): void => {
+  server.registerTool(
+    "echo",
+    {
+      description: "Echoes its input.",
+      inputSchema: { type: "object", required: ["message"], properties: { message: { type: "string" } } }
+    },
+    async (input) => ({ message: input.message })
+  );
+};
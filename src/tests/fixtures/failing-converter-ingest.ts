@@ -0,0 +1,5 @@
+export { extract, ingestDocument, normalize, segment } from "./soustack-ingest.js";
+
+export const toSoustack = (): never => {
+  throw new Error("converter exploded");
+};
@@ -0,0 +1,10 @@
+export const normalize = (text: string): string => text;
+
+export const segment = (): never => {
+  throw new Error("segmenter exploded");
+};
+
+export default {
+  normalize,
+  segment
+};
@@ -0,0 +1,8 @@
+export const normalize = (text: string): string => text;
+
+export const segment = async (): Promise<never> => await new Promise<never>(() => undefined);
+
+export default {
+  normalize,
+  segment
+};
@@ -0,0 +1,11 @@
+import { extract, normalize, segment } from "./soustack-ingest.js";
+
+export { extract, normalize, segment };
+
+export const toSoustack = (intermediate: { title: string }): { name: string } => {
+  if (intermediate.title.endsWith(":")) {
+    throw new Error(`"${intermediate.title}" is a section heading, not a recipe.`);
+  }
+
+  return { name: intermediate.title };
+};
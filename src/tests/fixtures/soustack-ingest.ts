@@ -44,6 +44,7 @@ type IngestDocumentInput = {
   returnRecipes?: boolean;
   maxRecipes?: number | null;
   strictValidation?: boolean;
+  onProgress?: (event: { type: string; [key: string]: unknown }) => void;
 };
 
 type IngestDocumentResult = {
@@ -206,7 +207,8 @@ export const ingestDocument = async ({
   inputPath,
   emitFiles,
   returnRecipes = true,
-  maxRecipes
+  maxRecipes,
+  onProgress
 }: IngestDocumentInput): Promise<IngestDocumentResult> => {
   const { readFile } = await import("node:fs/promises");
   const text = await readFile(inputPath, "utf8");
@@ -217,6 +219,7 @@ export const ingestDocument = async ({
     endLine: lines.length,
     titleGuess: lines.find((line) => Boolean(line.trim())) ?? "Recipe"
   };
+  onProgress?.({ type: "segmented", inputPath, chunks: 1 });
   const recipes = (() => {
     if (maxRecipes === 0) {
       return [];
@@ -224,6 +227,7 @@ export const ingestDocument = async ({
     const intermediate = extract(chunk, lines);
     const recipe = toSoustack(intermediate, { sourcePath: inputPath });
     const slug = slugify(recipe.name);
+    onProgress?.({ type: "recipe_extracted", inputPath, name: recipe.name, slug });
     return [{ name: recipe.name, slug, recipe }];
   })();
 
@@ -245,7 +249,13 @@ export const ingestDocument = async ({
   return response;
 };
 
+export const capabilities = {
+  inputKinds: ["text"],
+  options: ["emitFiles", "returnRecipes", "maxRecipes"]
+};
+
 export default {
+  capabilities,
   normalize,
   segment,
   extract,
@@ -0,0 +1,28 @@
+export const fixture = (name: string): string => new URL(`../fixtures/${name}`, import.meta.url).href;
+
+const withModules = async (ingest: string, run: () => Promise<void>) => {
+  const previousIngestModule = process.env.SOUSTACK_INGEST_MODULE;
+  const previousSoustackModule = process.env.SOUSTACK_VALIDATOR_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = fixture(ingest);
+  process.env.SOUSTACK_VALIDATOR_MODULE = fixture("soustack.js");
+
+  try {
+    await run();
+  } finally {
+    if (previousIngestModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousIngestModule;
+    }
+
+    if (previousSoustackModule === undefined) {
+      delete process.env.SOUSTACK_VALIDATOR_MODULE;
+    } else {
+      process.env.SOUSTACK_VALIDATOR_MODULE = previousSoustackModule;
+    }
+  }
+};
+
+export const withFixtureModules = (run: () => Promise<void>) => withModules("soustack-ingest.js", run);
+
+export const withDelayedIngest = (run: () => Promise<void>) => withModules("delayed-ingest.js", run);
@@ -0,0 +1,62 @@
+import type { Socket } from "node:net";
+import type { PassThrough } from "node:stream";
+import type { ErrorDetails } from "../../protocol.js";
+
+export type JsonLine = Record<string, unknown>;
+
+type LineSource = PassThrough | Socket;
+
+type LineReader = {
+  lines: JsonLine[];
+  taken: number;
+  failure?: unknown;
+  waiting: Array<() => void>;
+};
+
+const readers = new WeakMap<LineSource, LineReader>();
+
+const lineReader = (output: LineSource): LineReader => {
+  const existing = readers.get(output);
+  if (existing) {
+    return existing;
+  }
+
+  const reader: LineReader = { lines: [], taken: 0, waiting: [] };
+  let buffer = "";
+  const wake = () => reader.waiting.splice(0).forEach((resolve) => resolve());
+  output.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString();
+    const parts = buffer.split("\n");
+    buffer = parts.pop() ?? "";
+    try {
+      parts.filter(Boolean).forEach((line) => reader.lines.push(JSON.parse(line) as JsonLine));
+    } catch (error) {
+      reader.failure = error;
+    }
+    wake();
+  });
+  output.on("error", (error: unknown) => {
+    reader.failure = error;
+    wake();
+  });
+  readers.set(output, reader);
+  return reader;
+};
+
+export const readLines = (output: LineSource): JsonLine[] => lineReader(output).lines;
+
+export const collectLines = async (output: LineSource, count: number): Promise<JsonLine[]> => {
+  const reader = lineReader(output);
+  while (reader.lines.length - reader.taken < count) {
+    if (reader.failure !== undefined) {
+      throw reader.failure;
+    }
+    await new Promise<void>((resolve) => reader.waiting.push(resolve));
+  }
+
+  const lines = reader.lines.slice(reader.taken, reader.taken + count);
+  reader.taken += count;
+  return lines;
+};
+
+export const errorOf = (line: JsonLine): ErrorDetails => line.error as ErrorDetails;
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import type { ProgressEvent } from "../protocol.js";
+import { startServer } from "../server.js";
+import { collectLines } from "./helpers/lines.js";
+import path from "node:path";
+
+test("ingest.document streams progress notifications before its response when requested", async () => {
+  const previousIngestModule = process.env.SOUSTACK_INGEST_MODULE;
+  const previousSoustackModule = process.env.SOUSTACK_VALIDATOR_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = new URL("./fixtures/soustack-ingest.js", import.meta.url).href;
+  process.env.SOUSTACK_VALIDATOR_MODULE = new URL("./fixtures/soustack.js", import.meta.url).href;
+
+  try {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    startServer({ input, output });
+
+    const inputPath = path.resolve(process.cwd(), "src/tests/fixtures/sample-document.txt");
+
+    input.write(
+      `${JSON.stringify({
+        id: "document-progress",
+        tool: "ingest.document",
+        input: { inputPath },
+        progress: true
+      })}\n`
+    );
+    input.end();
+
+    const messages = await collectLines(output, 6);
+
+    const response = messages[messages.length - 1];
+    const notifications = messages.slice(0, -1);
+    const progress = notifications.map((message) => message.progress as ProgressEvent);
+
+    assert.equal(response.id, "document-progress");
+    assert.equal(response.ok, true);
+    assert.ok(notifications.every((message) => message.id === "document-progress" && message.event === "progress"));
+    assert.deepEqual(
+      progress.map((event) => event.type),
+      ["started", "segmented", "recipe_extracted", "recipe_validated", "completed"]
+    );
+
+    const validated = progress[3];
+    assert.equal(validated.index, 1);
+    assert.equal(validated.total, 1);
+    assert.equal(validated.slug, "simple-recipe");
+    assert.equal((validated.recipe as { profile: string }).profile, "soustack/recipe-lite");
+    assert.deepEqual(progress[4], { type: "completed", ok: true, recipeCount: 1, errorCount: 0 });
+  } finally {
+    if (previousIngestModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousIngestModule;
+    }
+
+    if (previousSoustackModule === undefined) {
+      delete process.env.SOUSTACK_VALIDATOR_MODULE;
+    } else {
+      process.env.SOUSTACK_VALIDATOR_MODULE = previousSoustackModule;
+    }
+  }
+});
@@ -0,0 +1,69 @@
+import { mkdir, rm, symlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { createMemoryClient } from "../client.js";
+import { fixture } from "./helpers/fixtures.js";
+
+const recipe = (title: string): string =>
+  `${title}\n\nIngredients:\n- 1 cup flour\n\nInstructions:\nMix and bake.\n`;
+
+test("ingest.document walks a directory and groups results by file", async () => {
+  const root = fileURLToPath(new URL("./walk-fixture/", import.meta.url));
+  const notes = path.join(root, "notes");
+  const outside = path.join(root, "outside");
+  await mkdir(path.join(notes, "breads", "old"), { recursive: true });
+  await mkdir(path.join(notes, "drafts"), { recursive: true });
+  await mkdir(outside, { recursive: true });
+  await writeFile(path.join(notes, "pancakes.txt"), recipe("Pancakes"));
+  await writeFile(path.join(notes, "waffles"), recipe("Waffles"));
+  await writeFile(path.join(notes, "photo.png"), "png");
+  await writeFile(path.join(notes, "breads", "focaccia.txt"), recipe("Focaccia"));
+  await writeFile(path.join(notes, "breads", "old", "rye.txt"), recipe("Rye"));
+  await writeFile(path.join(notes, "drafts", "idea.txt"), recipe("Idea"));
+  await writeFile(path.join(outside, "secret.txt"), recipe("Secret"));
+  await symlink(path.join(notes, "pancakes.txt"), path.join(notes, "linked.txt"));
+  await symlink(path.join(outside, "secret.txt"), path.join(notes, "secret.txt"));
+
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") },
+    allowedRoots: [notes]
+  });
+
+  try {
+    const walked = await client.ingestDocument({
+      inputPath: notes,
+      options: { exclude: ["drafts"], maxDepth: 1 }
+    });
+    assert.equal(walked.ok, true);
+    assert.deepEqual(
+      walked.files?.map((file) => [file.source.relativePath, file.source.kind, file.recipes?.map((entry) => entry.name)]),
+      [
+        ["breads/focaccia.txt", "text", ["Focaccia"]],
+        ["pancakes.txt", "text", ["Pancakes"]],
+        ["waffles", "text", ["Waffles"]]
+      ]
+    );
+    assert.deepEqual(walked.recipes?.map((entry) => entry.slug), ["focaccia", "pancakes", "waffles"]);
+    assert.deepEqual(walked.skipped, [
+      { path: "breads/old", reason: "deeper than maxDepth" },
+      { path: "linked.txt", reason: "symlink" },
+      { path: "photo.png", reason: "unsupported file kind" },
+      { path: "secret.txt", reason: "symlink" }
+    ]);
+
+    const followed = await client.ingestDocument({
+      inputPath: notes,
+      options: { include: ["*.txt"], exclude: ["breads", "drafts"], symlinks: "follow", maxRecipes: 2 }
+    });
+    assert.deepEqual(
+      followed.files?.map((file) => file.source.relativePath),
+      ["linked.txt", "pancakes.txt"]
+    );
+    assert.deepEqual(followed.skipped, [{ path: "secret.txt", reason: "symlink target is outside the allowed roots" }]);
+  } finally {
+    await client.close();
+    await rm(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,107 @@
+import { readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { createMemoryClient } from "../client.js";
+import { normalizeMarkdown, segmentMarkdown } from "../markdown.js";
+import { fixture } from "./helpers/fixtures.js";
+
+const document = fileURLToPath(new URL("../../src/tests/fixtures/sample-document.md", import.meta.url));
+
+const metadata = {
+  title: "Brunch notes",
+  tags: ["breakfast", "weekend"],
+  servings: 4,
+  sourceUrl: "https://example.com/brunch",
+  author: "Sam"
+};
+
+test("normalizeMarkdown strips syntax line for line and segmentMarkdown splits on recipe headings", async () => {
+  const normalized = normalizeMarkdown(await readFile(document, "utf8"));
+  const lines = normalized.text.split("\n");
+  assert.deepEqual(lines.slice(0, 8), ["", "", "", "", "", "", "", ""]);
+  assert.deepEqual(lines.slice(16, 28), [
+    "Buttermilk pancakes",
+    "",
+    "Ingredients",
+    "",
+    "- 2 cups flour",
+    "- 1 cup buttermilk",
+    "- or milk with 1 tbsp lemon juice",
+    "",
+    "Instructions",
+    "",
+    "1. Whisk everything gently.",
+    "2. Cook on a hot griddle."
+  ]);
+  assert.equal(lines[13], "# batter rests 10 minutes");
+  assert.deepEqual(
+    normalized.headings.map((heading) => [heading.line, heading.level]),
+    [
+      [9, 1],
+      [17, 2],
+      [19, 3],
+      [25, 3],
+      [30, 2],
+      [32, 3],
+      [36, 3]
+    ]
+  );
+  assert.deepEqual(normalized.metadata, metadata);
+
+  assert.deepEqual(
+    segmentMarkdown(normalized).map((chunk) => [chunk.titleGuess, chunk.startLine, chunk.endLine]),
+    [
+      ["Buttermilk pancakes", 17, 28],
+      ["Waffles", 30, 38]
+    ]
+  );
+  assert.deepEqual(
+    segmentMarkdown(normalizeMarkdown("Setext title\n============\n\n- 1 egg\n")).map((chunk) => chunk.titleGuess),
+    ["Setext title"]
+  );
+});
+
+test("Markdown input segments on headings in every tool and carries front matter into recipes", async () => {
+  const outDir = fileURLToPath(new URL("./markdown-out/", import.meta.url));
+  const text = await readFile(document, "utf8");
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const segmented = await client.segment(text, { format: "markdown" });
+    assert.deepEqual(
+      segmented.chunks.map((chunk) => chunk.titleGuess),
+      ["Buttermilk pancakes", "Waffles"]
+    );
+
+    const { intermediate } = await client.extract(text, segmented.chunks[1], { format: "markdown" });
+    assert.deepEqual(intermediate.ingredients, ["2 eggs"]);
+    assert.deepEqual(intermediate.instructions, ["Heat the iron."]);
+
+    const pipeline = await client.pipeline(text, { format: "markdown" });
+    assert.equal(pipeline.ok, true);
+    assert.equal(pipeline.recipeCount, 2);
+    const canonical = pipeline.chunks[0].stages.canonicalize?.output as Record<string, unknown>;
+    assert.deepEqual(canonical.metadata, metadata);
+
+    const ingested = await client.ingestDocument({ inputPath: document, outDir });
+    assert.equal(ingested.ok, true);
+    const pancakes = ingested.recipes?.find((entry) => entry.name === "Buttermilk pancakes");
+    assert.ok(pancakes);
+    assert.deepEqual(pancakes.sourceLines, { startLine: 17, endLine: 28 });
+    assert.deepEqual((pancakes.recipe as Record<string, unknown>).ingredients, [
+      "2 cups flour",
+      "1 cup buttermilk",
+      "or milk with 1 tbsp lemon juice"
+    ]);
+    const written = JSON.parse(await readFile(path.join(outDir, "recipes", "waffles.json"), "utf8"));
+    assert.deepEqual(written.instructions, ["Heat the iron."]);
+    assert.deepEqual(written.metadata.tags, ["breakfast", "weekend"]);
+  } finally {
+    await client.close();
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
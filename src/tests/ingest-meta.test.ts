@@ -1,7 +1,9 @@
 import { PassThrough } from "node:stream";
 import test from "node:test";
 import assert from "node:assert/strict";
+import type { AdapterDiagnostics, AvailableAdapter } from "../modules.js";
 import { startServer } from "../server.js";
+import { collectLines } from "./helpers/lines.js";
 
 test("ingest.meta returns expected shape", async () => {
   const input = new PassThrough();
@@ -39,3 +41,73 @@ test("ingest.meta returns expected shape", async () => {
   assert.deepEqual(response.output.supportedInputKinds, ["text", "rtf", "rtfd.zip", "rtfd-dir"]);
   assert.equal(typeof response.output.timestamp, "string");
 });
+
+const requestMeta = async (modules: { ingest: string; validator: string }) => {
+  const previousIngest = process.env.SOUSTACK_INGEST_MODULE;
+  const previousValidator = process.env.SOUSTACK_VALIDATOR_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = modules.ingest;
+  process.env.SOUSTACK_VALIDATOR_MODULE = modules.validator;
+
+  const input = new PassThrough();
+  const output = new PassThrough();
+
+  try {
+    startServer({ input, output });
+    input.write(`${JSON.stringify({ id: "meta-test", tool: "ingest.meta", input: {} })}\n`);
+    input.end();
+
+    const [response] = await collectLines(output, 1);
+    assert.equal(response.ok, true);
+    return response.output as {
+      soustackIngestVersion: string | null;
+      soustackVersion: string | null;
+      supportedInputKinds: string[];
+      capabilities: Record<string, unknown>;
+      adapters: { ingest: AdapterDiagnostics; validator: AdapterDiagnostics };
+    };
+  } finally {
+    for (const [name, value] of [
+      ["SOUSTACK_INGEST_MODULE", previousIngest],
+      ["SOUSTACK_VALIDATOR_MODULE", previousValidator]
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+};
+
+test("ingest.meta reports what the loaded modules declare", async () => {
+  const meta = await requestMeta({
+    ingest: new URL("./fixtures/soustack-ingest.js", import.meta.url).href,
+    validator: new URL("./fixtures/soustack.js", import.meta.url).href
+  });
+  const ingest = meta.adapters.ingest as AvailableAdapter;
+  assert.deepEqual(ingest.package, { name: "@soustack/mcp-ingest", version: "0.1.0" });
+  assert.equal(meta.soustackIngestVersion, "0.1.0");
+  assert.deepEqual(meta.supportedInputKinds, ["text", "rtf", "rtfd.zip", "rtfd-dir", "markdown"]);
+  assert.deepEqual(meta.capabilities, {
+    stages: ["ingest", "normalize", "segment", "extract", "toSoustack", "validate"],
+    inputKindsDeclared: true,
+    options: ["emitFiles", "returnRecipes", "maxRecipes"],
+    validator: "validateRecipe"
+  });
+});
+
+test("ingest.meta falls back to default input kinds when the backend declares none", async () => {
+  const meta = await requestMeta({
+    ingest: new URL("./fixtures/delayed-ingest.js", import.meta.url).href,
+    validator: new URL("./fixtures/missing-validator.js", import.meta.url).href
+  });
+  assert.deepEqual(meta.supportedInputKinds, ["text", "rtf", "rtfd.zip", "rtfd-dir"]);
+  assert.deepEqual(meta.capabilities, {
+    stages: ["ingest"],
+    inputKindsDeclared: false,
+    options: null,
+    validator: null
+  });
+  assert.equal(meta.soustackVersion, null);
+  assert.equal(meta.adapters.validator.available, false);
+});
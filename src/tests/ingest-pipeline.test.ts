@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryClient } from "../client.js";
+import type { PipelineOutput } from "../server.js";
+import { fixture } from "./helpers/fixtures.js";
+
+const text = "Pancakes\n\nIngredients:\n- 1 egg\n- 1 cup milk\n\nInstructions:\nWhisk and fry.";
+
+test("ingest.pipeline reports every stage for each chunk", async () => {
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const call = client.call<PipelineOutput>("ingest.pipeline", {
+      text,
+      options: { maxChunks: 2, sourcePath: "/notes/pancakes.txt" }
+    });
+    const events: unknown[] = [];
+    for await (const event of call.progress) {
+      events.push(event);
+    }
+    const output = await call.result;
+
+    assert.equal(output.ok, true);
+    assert.equal(output.failedStage, null);
+    assert.equal(output.stages.normalize?.output, text);
+    assert.equal(output.recipeCount, 2);
+    assert.deepEqual(
+      output.chunks.map((chunk) => [chunk.index, chunk.chunk.titleGuess, Object.keys(chunk.stages)]),
+      [
+        [0, "Pancakes", ["extract", "toSoustack", "canonicalize", "validate"]],
+        [1, "Ingredients:", ["extract", "toSoustack", "canonicalize", "validate"]]
+      ]
+    );
+
+    const [first] = output.chunks;
+    assert.deepEqual(first.stages.validate?.output, { ok: true, errors: [] });
+    assert.equal(typeof first.stages.extract?.durationMs, "number");
+    assert.deepEqual((first.stages.canonicalize?.output as Record<string, unknown>).stacks, { pancakes: true });
+    const converted = first.stages.toSoustack?.output as { "x-ingest": { sourcePath: string } };
+    assert.equal(converted["x-ingest"].sourcePath, "/notes/pancakes.txt");
+    assert.deepEqual(events[1], { type: "chunk_completed", index: 1, total: 2, ok: true, failedStage: null });
+  } finally {
+    await client.close();
+  }
+});
+
+test("ingest.pipeline records the stage where a chunk failed and carries on", async () => {
+  const client = createMemoryClient({
+    modules: { ingest: fixture("picky-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const output = await client.pipeline(text);
+
+    assert.equal(output.ok, false);
+    assert.equal(output.recipeCount, 1);
+    assert.deepEqual(
+      output.chunks.map((chunk) => [chunk.ok, chunk.failedStage]),
+      [
+        [true, null],
+        [false, "toSoustack"],
+        [false, "toSoustack"]
+      ]
+    );
+
+    const failed = output.chunks[1];
+    assert.deepEqual(Object.keys(failed.stages), ["extract", "toSoustack"]);
+    assert.deepEqual(failed.stages.toSoustack?.errors, ['"Ingredients:" is a section heading, not a recipe.']);
+    assert.equal(failed.stages.toSoustack?.output, undefined);
+  } finally {
+    await client.close();
+  }
+});
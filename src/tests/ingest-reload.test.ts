@@ -0,0 +1,75 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { AvailableAdapter } from "../modules.js";
+import { startServer } from "../server.js";
+import type { JsonLine } from "./helpers/lines.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+const moduleSource = (label: string, layout: "stages" | "named"): string => {
+  const segment = `(text) => ({ chunks: [{ startLine: 1, endLine: 1, titleGuess: "${label}", confidence: 1 }] })`;
+  return layout === "stages"
+    ? `export default { normalize: (text) => text, stages: { segment: ${segment} } };\n`
+    : `export const normalize = (text) => text;\nexport const segment = ${segment};\n`;
+};
+
+test("ingest adapters are cached, reported by ingest.meta and reloaded on demand", async () => {
+  const directory = new URL("./reload-fixture/", import.meta.url);
+  const modulePath = new URL("./ingest.mjs", directory);
+  await mkdir(directory, { recursive: true });
+  await writeFile(modulePath, moduleSource("first", "stages"));
+
+  const previousIngest = process.env.SOUSTACK_INGEST_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = modulePath.href;
+
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const call = async (id: string, tool: string, toolInput: Record<string, unknown> = {}) => {
+    input.write(`${JSON.stringify({ id, tool, input: toolInput })}\n`);
+    return (await collectLines(output, 1))[0];
+  };
+  const ingestAdapter = (response: JsonLine) =>
+    (response.output as { adapters: { ingest: AvailableAdapter } }).adapters.ingest;
+  const firstTitle = (response: JsonLine) =>
+    (response.output as { chunks: Array<{ titleGuess: string }> }).chunks[0].titleGuess;
+
+  try {
+    startServer({ input, output });
+
+    const meta = await call("meta-1", "ingest.meta");
+    assert.equal(meta.ok, true);
+    const loaded = ingestAdapter(meta);
+    assert.equal(loaded.available, true);
+    assert.equal(loaded.generation, 0);
+    assert.equal(loaded.stages.segment, "default.stages.segment");
+    assert.equal(loaded.stages.normalize, "default.normalize");
+    assert.equal(loaded.stages.extract, null);
+
+    await writeFile(modulePath, moduleSource("second", "named"));
+
+    const cached = await call("segment-1", "ingest.segment", { text: "Soup" });
+    assert.equal(firstTitle(cached), "first");
+
+    const reload = await call("reload-1", "ingest.reload");
+    assert.equal(reload.ok, true);
+    const reloadedAdapter = ingestAdapter(reload);
+    assert.equal(reloadedAdapter.generation, 1);
+    assert.equal(reloadedAdapter.stages.segment, "segment");
+    assert.match(reloadedAdapter.url, /generation=1/);
+
+    const reloaded = await call("segment-2", "ingest.segment", { text: "Soup" });
+    assert.equal(firstTitle(reloaded), "second");
+
+    const missing = await call("extract-1", "ingest.extract", { text: "Soup", chunk: { startLine: 1, endLine: 1 } });
+    assert.equal(errorOf(missing).code, "stage_missing");
+  } finally {
+    input.end();
+    if (previousIngest === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousIngest;
+    }
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,90 @@
+import { readFile, rm } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { createMemoryClient } from "../client.js";
+import { ToolError } from "../errors.js";
+import { decodeRtf } from "../rtf.js";
+import { fixture } from "./helpers/fixtures.js";
+
+const document = fileURLToPath(new URL("../../src/tests/fixtures/sample-document.rtf", import.meta.url));
+
+test("decodeRtf turns RTF into normalized text and maps each line to its source line", async () => {
+  const decoded = decodeRtf(await readFile(document, "latin1"));
+  assert.deepEqual(decoded.text.split("\n"), [
+    "Crème brûlée",
+    "Ingredients:",
+    "- 2 cups cream",
+    "- ½ cup sugar",
+    "- 1 vanilla pod",
+    "Instructions:",
+    "1. Bake at 150°C – slowly.",
+    "",
+    "Café latte",
+    "Ingredients:",
+    "- 1 shot espresso",
+    "- milk"
+  ]);
+  assert.deepEqual(decoded.sourceLines, [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 17]);
+
+  const grouped = decodeRtf("{\\rtf1{\\fonttbl\\f0 Times;}{\\*\\generator Writer;}A{\\b bold}\\uc2\\u-10179\\'3f\\'3f\\u-8703??\\par}");
+  assert.equal(grouped.text, "Abold\u{1f601}");
+});
+
+test("RTF input runs through the decode stage and the built-in ingest path", async () => {
+  const outDir = fileURLToPath(new URL("./rtf-out/", import.meta.url));
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const pipeline = await client.pipeline(await readFile(document, "latin1"));
+    assert.equal(pipeline.ok, true);
+    assert.deepEqual(Object.keys(pipeline.stages), ["decode", "segment"]);
+    assert.deepEqual(
+      pipeline.chunks.map((chunk) => chunk.sourceLines),
+      [
+        { startLine: 7, endLine: 13 },
+        { startLine: 15, endLine: 17 }
+      ]
+    );
+
+    const ingested = await client.ingestDocument({ inputPath: document, outDir });
+    assert.deepEqual(
+      ingested.recipes?.map((recipe) => [recipe.name, recipe.sourceLines]),
+      [
+        ["Café latte", { startLine: 15, endLine: 17 }],
+        ["Crème brûlée", { startLine: 7, endLine: 13 }]
+      ]
+    );
+    assert.equal(ingested.emitted?.count, 2);
+    const index = JSON.parse(await readFile(path.join(outDir, "index.json"), "utf8")) as {
+      recipes: Array<{ name: string; path: string }>;
+    };
+    assert.equal(index.recipes.length, 2);
+    const latte = index.recipes.find((entry) => entry.name === "Café latte");
+    assert.ok(latte);
+    const written = JSON.parse(await readFile(path.join(outDir, latte.path), "utf8"));
+    assert.deepEqual(written.ingredients, ["1 shot espresso", "milk"]);
+  } finally {
+    await client.close();
+    await rm(outDir, { recursive: true, force: true });
+  }
+});
+
+test("decoded documents report the module stage that failed", async () => {
+  const client = createMemoryClient({
+    modules: { ingest: fixture("failing-converter-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    await assert.rejects(
+      client.ingestDocument({ inputPath: document }),
+      (error: unknown) =>
+        error instanceof ToolError && error.code === "stage_failed" && error.details.stage === "toSoustack"
+    );
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,153 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { deflateRawSync } from "node:zlib";
+import { createMemoryClient } from "../client.js";
+import { ToolError } from "../errors.js";
+import { readZip } from "../zip.js";
+import { fixture } from "./helpers/fixtures.js";
+
+const text = String.raw`{\rtf1\ansi\ansicpg1252\cocoartf2639
+{\fonttbl\f0\fswiss\fcharset0 Helvetica;}
+\pard\f0\fs24 Pancakes\
+{{\NeXTGraphic stack.png \width2000 \height1500 \appleattachmentpadding0 \appleembedtype0 \appleaqc
+}\'ac}\
+Ingredients:\
+- 1 egg\
+\
+Waffles\
+Ingredients:\
+- 2 eggs\
+{{\NeXTGraphic waffle iron.jpeg \width2000 \height1500
+}\'ac}\
+}`;
+
+const images: Record<string, Uint8Array> = {
+  "stack.png": new Uint8Array([137, 80, 78, 71]),
+  "waffle iron.jpeg": new Uint8Array([255, 216, 255, 224, 0]),
+  "unused.gif": new Uint8Array([71, 73, 70])
+};
+
+const zip = (files: Array<[string, Uint8Array, boolean]>): Uint8Array => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, data, deflate] of files) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const body = deflate ? deflateRawSync(data) : data;
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, deflate ? 8 : 0, true);
+    local.setUint32(18, body.byteLength, true);
+    local.setUint32(22, data.byteLength, true);
+    local.setUint16(26, nameBytes.byteLength, true);
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, deflate ? 8 : 0, true);
+    central.setUint32(20, body.byteLength, true);
+    central.setUint32(24, data.byteLength, true);
+    central.setUint16(28, nameBytes.byteLength, true);
+    central.setUint32(42, offset, true);
+    locals.push(new Uint8Array(local.buffer), nameBytes, body);
+    centrals.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.byteLength + body.byteLength;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centrals.reduce((total, part) => total + part.byteLength, 0), true);
+  end.setUint32(16, offset, true);
+  return Buffer.concat([...locals, ...centrals, new Uint8Array(end.buffer)]);
+};
+
+const attachmentsOf = (recipes: Array<{ name: string; recipe: object }> | undefined) =>
+  recipes?.map((entry) => [entry.name, (entry.recipe as { "x-ingest"?: { attachments?: unknown[] } })["x-ingest"]?.attachments ?? []]);
+
+test("readZip lists entries and inflates deflated data", () => {
+  const entries = readZip(zip([["a/", new Uint8Array(), false], ["a/b.txt", Buffer.from("hello hello hello"), true]]));
+  assert.deepEqual(
+    entries.map((entry) => [entry.name, entry.directory, entry.size]),
+    [
+      ["a/", true, 0],
+      ["a/b.txt", false, 17]
+    ]
+  );
+  assert.equal(Buffer.from(entries[1].read()).toString("utf8"), "hello hello hello");
+  assert.throws(() => readZip(Buffer.from("not a zip")), /Not a zip archive/);
+});
+
+test("readZip stops inflating entries past their declared size or the total limit", () => {
+  const isTooLarge = (error: unknown): boolean => error instanceof ToolError && error.code === "invalid_input";
+  const bomb = zip([["bomb.txt", new Uint8Array(100_000), true]]);
+  const view = new DataView(bomb.buffer, bomb.byteOffset, bomb.byteLength);
+  view.setUint32(view.getUint32(bomb.byteLength - 6, true) + 24, 10, true);
+  assert.throws(() => readZip(bomb)[0].read(), isTooLarge);
+
+  const large = zip([["large.txt", new Uint8Array(100_000), true]]);
+  assert.throws(() => readZip(large, { maxTotalSize: 1000 })[0].read(), isTooLarge);
+  assert.equal(readZip(large)[0].read().byteLength, 100_000);
+});
+
+test("ingest.document reads RTFD bundles and zipped bundles and links their images", async () => {
+  const root = fileURLToPath(new URL("./rtfd-fixture/", import.meta.url));
+  const bundle = path.join(root, "Brunch.rtfd");
+  const archive = path.join(root, "Brunch.rtfd.zip");
+  const outDir = path.join(root, "out");
+  await mkdir(bundle, { recursive: true });
+  await writeFile(path.join(bundle, "TXT.rtf"), text);
+  for (const [name, data] of Object.entries(images)) {
+    await writeFile(path.join(bundle, name), data);
+  }
+  await writeFile(
+    archive,
+    zip([
+      ["Brunch.rtfd/", new Uint8Array(), false],
+      ["Brunch.rtfd/TXT.rtf", Buffer.from(text, "latin1"), true],
+      ...Object.entries(images).map(([name, data]): [string, Uint8Array, boolean] => [`Brunch.rtfd/${name}`, data, false]),
+      ["__MACOSX/Brunch.rtfd/._TXT.rtf", new Uint8Array([0]), false]
+    ])
+  );
+
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") }
+  });
+
+  try {
+    const fromBundle = await client.ingestDocument({ inputPath: bundle, outDir });
+    assert.deepEqual(attachmentsOf(fromBundle.recipes), [
+      [
+        "Pancakes",
+        [{ name: "stack.png", mediaType: "image/png", size: 4, sourceLine: 4, path: "attachments/pancakes/stack.png" }]
+      ],
+      [
+        "Waffles",
+        [
+          {
+            name: "waffle iron.jpeg",
+            mediaType: "image/jpeg",
+            size: 5,
+            sourceLine: 12,
+            path: "attachments/waffles/waffle iron.jpeg"
+          }
+        ]
+      ]
+    ]);
+    assert.deepEqual(fromBundle.recipes?.map((entry) => (entry.recipe as Record<string, unknown>).ingredients), [["1 egg"], ["2 eggs"]]);
+    assert.deepEqual([...(await readFile(path.join(outDir, "attachments", "pancakes", "stack.png")))], [...images["stack.png"]]);
+    const written = JSON.parse(await readFile(path.join(outDir, "recipes", "waffles.json"), "utf8"));
+    assert.equal(written["x-ingest"].attachments[0].path, "attachments/waffles/waffle iron.jpeg");
+
+    const fromArchive = await client.ingestDocument({ inputPath: archive });
+    assert.deepEqual(attachmentsOf(fromArchive.recipes), [
+      ["Pancakes", [{ name: "stack.png", mediaType: "image/png", size: 4, sourceLine: 4 }]],
+      ["Waffles", [{ name: "waffle iron.jpeg", mediaType: "image/jpeg", size: 5, sourceLine: 12 }]]
+    ]);
+  } finally {
+    await client.close();
+    await rm(root, { recursive: true, force: true });
+  }
+});
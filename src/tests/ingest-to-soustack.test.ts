@@ -1,6 +1,8 @@
 import { PassThrough } from "node:stream";
 import test from "node:test";
 import assert from "node:assert/strict";
+import { createMemoryClient } from "../client.js";
+import { ToolError } from "../errors.js";
 import { startServer } from "../server.js";
 
 test("ingest.toSoustack maps intermediate recipe to soustack recipe", async () => {
@@ -84,3 +86,21 @@ test("ingest.toSoustack maps intermediate recipe to soustack recipe", async () =
     }
   }
 });
+
+test("ingest.toSoustack rejects a whitespace-only title", async () => {
+  const client = createMemoryClient({
+    modules: { ingest: new URL("./fixtures/soustack-ingest.js", import.meta.url).href }
+  });
+
+  try {
+    await assert.rejects(
+      client.toSoustack({ title: "   ", ingredients: [], instructions: [] }),
+      (error: unknown) =>
+        error instanceof ToolError &&
+        error.code === "invalid_input" &&
+        error.message === "intermediate.title must be a non-empty string."
+    );
+  } finally {
+    await client.close();
+  }
+});
@@ -3,7 +3,7 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import { startServer } from "../server.js";
 
-test("ingest.validate returns ok false for invalid recipes", async () => {
+test("ingest.validate fails with validation_failed for invalid recipes", async () => {
   const previousSoustackModule = process.env.SOUSTACK_VALIDATOR_MODULE;
   process.env.SOUSTACK_VALIDATOR_MODULE = new URL("./fixtures/soustack.js", import.meta.url).href;
 
@@ -29,9 +29,9 @@ test("ingest.validate returns ok false for invalid recipes", async () => {
 
     const response = await new Promise<{
       ok: boolean;
-      output?: {
-        ok: boolean;
-        errors: string[];
+      error?: {
+        code: string;
+        details: { errors: string[] };
       };
     }>((resolve, reject) => {
       output.on("data", (chunk) => {
@@ -48,10 +48,10 @@ test("ingest.validate returns ok false for invalid recipes", async () => {
       output.on("error", reject);
     });
 
-    assert.equal(response.ok, true);
-    assert.ok(response.output);
-    assert.equal(response.output.ok, false);
-    assert.deepEqual(response.output.errors, [
+    assert.equal(response.ok, false);
+    assert.ok(response.error);
+    assert.equal(response.error.code, "validation_failed");
+    assert.deepEqual(response.error.details.errors, [
       "$schema must match soustack vNext.",
       "name is required.",
       "profile must be soustack/recipe-lite.",
@@ -0,0 +1,57 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { JsonSchema } from "../schemas.js";
+import { startServer } from "../server.js";
+import { fixture } from "./helpers/fixtures.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+test("tools pick a named backend profile per request and fall back to the default profile", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+
+  startServer({
+    input,
+    output,
+    ordered: true,
+    defaultBackend: "stable",
+    backends: {
+      stable: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js"), options: { maxChunks: 1 } },
+      experimental: { ingest: fixture("failing-ingest.js"), validator: fixture("soustack.js") }
+    }
+  });
+
+  const text = "Pancakes\nflour\n\nWaffles\neggs";
+  input.write(`${JSON.stringify({ id: "stable", tool: "ingest.segment", input: { text } })}\n`);
+  input.write(`${JSON.stringify({ id: "override", tool: "ingest.segment", input: { text, options: { maxChunks: 5 } } })}\n`);
+  input.write(`${JSON.stringify({ id: "experimental", tool: "ingest.segment", input: { text, backend: "experimental" } })}\n`);
+  input.write(`${JSON.stringify({ id: "meta", tool: "ingest.meta", input: { backend: "experimental" } })}\n`);
+  input.write(`${JSON.stringify({ id: "unknown", tool: "ingest.segment", input: { text, backend: "nightly" } })}\n`);
+  input.write(`${JSON.stringify({ id: "describe", tool: "tools.describe", input: { tool: "ingest.segment" } })}\n`);
+  input.end();
+
+  const [stable, override, experimental, meta, unknown, describe] = await collectLines(output, 6);
+  const chunkCount = (response: Record<string, unknown>) => (response.output as { chunks: unknown[] }).chunks.length;
+
+  assert.equal(stable.ok, true);
+  assert.equal(chunkCount(stable), 1);
+  assert.equal(chunkCount(override), 2);
+
+  assert.equal(errorOf(experimental).code, "stage_failed");
+  assert.equal(errorOf(experimental).details?.error, "segmenter exploded");
+
+  const metaOutput = meta.output as {
+    backend: string;
+    adapters: { ingest: { module: string } };
+    capabilities: { stages: string[] };
+  };
+  assert.equal(metaOutput.backend, "experimental");
+  assert.equal(metaOutput.adapters.ingest.module, fixture("failing-ingest.js"));
+  assert.deepEqual(metaOutput.capabilities.stages, ["normalize", "segment"]);
+
+  assert.equal(errorOf(unknown).code, "invalid_input");
+  assert.deepEqual(errorOf(unknown).details?.issues, [{ pointer: "/backend", message: 'Backend "nightly" is not configured.' }]);
+
+  const [segmentTool] = (describe.output as { tools: Array<{ inputSchema: JsonSchema }> }).tools;
+  assert.deepEqual(segmentTool.inputSchema.properties?.backend.enum, ["stable", "experimental"]);
+});
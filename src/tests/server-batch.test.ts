@@ -0,0 +1,112 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "../server.js";
+import { withFixtureModules } from "./helpers/fixtures.js";
+import type { JsonLine } from "./helpers/lines.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+const collectBatch = async (output: PassThrough) => (await collectLines(output, 1))[0] as unknown as JsonLine[];
+
+const text = "Pancakes\nIngredients:\n- Flour\nSteps:\n1. Mix.";
+
+test("an array line answers with one response per request and keeps partial failures", async () => {
+  await withFixtureModules(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startServer({ input, output });
+
+    input.write(
+      `${JSON.stringify([
+        { id: "segment-1", tool: "ingest.segment", input: { text } },
+        { id: "segment-2", tool: "ingest.segment", input: { text: "" } },
+        { id: "ping-1", tool: "ping", input: {} },
+        { id: "ping-1", tool: "ping", input: {} },
+        { tool: "ping" }
+      ])}\n`
+    );
+    input.end();
+
+    const responses = await collectBatch(output);
+    assert.equal(responses.length, 5);
+    assert.equal(responses[0].id, "segment-1");
+    assert.equal(responses[0].ok, true);
+    assert.equal(errorOf(responses[1]).code, "invalid_input");
+    assert.deepEqual(responses[2], { id: "ping-1", ok: true, output: { pong: true } });
+    assert.equal(errorOf(responses[3]).code, "invalid_request");
+    assert.deepEqual(responses[4].id, null);
+    assert.equal(errorOf(responses[4]).code, "invalid_request");
+  });
+});
+
+test("the batch tool can stop at the first error", async () => {
+  await withFixtureModules(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startServer({ input, output });
+
+    input.write(
+      `${JSON.stringify({
+        id: "batch-1",
+        tool: "batch",
+        input: {
+          stopOnError: true,
+          requests: [
+            { id: "segment-1", tool: "ingest.segment", input: { text } },
+            { id: "validate-1", tool: "ingest.validate", input: { recipe: { name: "" } } },
+            { id: "ping-1", tool: "ping", input: {} }
+          ]
+        }
+      })}\n`
+    );
+    input.end();
+
+    const [response] = await collectLines(output, 1);
+    assert.equal(response.id, "batch-1");
+    assert.equal(response.ok, true);
+    const summary = response.output as { succeeded: number; failed: number; responses: JsonLine[] };
+    assert.equal(summary.succeeded, 1);
+    assert.equal(summary.failed, 2);
+    assert.deepEqual(
+      summary.responses.map((item) => [item.id, item.ok ? "ok" : errorOf(item).code]),
+      [
+        ["segment-1", "ok"],
+        ["validate-1", "validation_failed"],
+        ["ping-1", "skipped"]
+      ]
+    );
+  });
+});
+
+test("batch items run no more than the concurrency limit at a time", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  startServer({
+    input,
+    output,
+    concurrency: 1,
+    modules: {
+      ingest: new URL("./fixtures/delayed-ingest.js", import.meta.url).href,
+      validator: new URL("./fixtures/soustack.js", import.meta.url).href
+    }
+  });
+
+  const started = Date.now();
+  input.write(
+    `${JSON.stringify([
+      { id: "document-1", tool: "ingest.document", input: { inputPath: "/delay/40" } },
+      { id: "document-2", tool: "ingest.document", input: { inputPath: "/delay/40" } }
+    ])}\n`
+  );
+  input.end();
+
+  const responses = await collectBatch(output);
+  assert.ok(Date.now() - started >= 75);
+  assert.deepEqual(
+    responses.map((response) => [response.id, response.ok]),
+    [
+      ["document-1", true],
+      ["document-2", true]
+    ]
+  );
+});
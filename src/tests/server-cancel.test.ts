@@ -0,0 +1,62 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "../server.js";
+import { observed } from "./fixtures/blocking-ingest.js";
+import { collectLines } from "./helpers/lines.js";
+
+test("cancel aborts an in-flight ingest.document and answers with a cancelled error", async () => {
+  const previousIngestModule = process.env.SOUSTACK_INGEST_MODULE;
+  const previousSoustackModule = process.env.SOUSTACK_VALIDATOR_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = new URL("./fixtures/blocking-ingest.js", import.meta.url).href;
+  process.env.SOUSTACK_VALIDATOR_MODULE = new URL("./fixtures/soustack.js", import.meta.url).href;
+
+  try {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    startServer({ input, output });
+
+    input.write(`${JSON.stringify({ id: "document-1", tool: "ingest.document", input: { inputPath: "/tmp/big" } })}\n`);
+
+    while (observed.started === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    input.write(`${JSON.stringify({ id: "document-1", tool: "ingest.document", input: { inputPath: "/tmp/big" } })}\n`);
+    input.write(`${JSON.stringify({ id: "cancel-1", tool: "cancel", input: { id: "document-1" } })}\n`);
+    input.write(`${JSON.stringify({ id: "cancel-2", tool: "cancel", input: { id: "document-1" } })}\n`);
+
+    const responses = await collectLines(output, 4);
+    const byId = new Map(responses.map((response) => [response.id, response]));
+
+    assert.deepEqual(responses[0], {
+      id: "document-1",
+      ok: false,
+      error: { code: "invalid_request", message: 'Request id "document-1" is already in flight.' }
+    });
+
+    assert.deepEqual(byId.get("cancel-1"), { id: "cancel-1", ok: true, output: { id: "document-1", cancelled: true } });
+    assert.deepEqual(byId.get("cancel-2"), { id: "cancel-2", ok: true, output: { id: "document-1", cancelled: false } });
+    assert.deepEqual(byId.get("document-1"), {
+      id: "document-1",
+      ok: false,
+      error: { code: "cancelled", message: "Request was cancelled." }
+    });
+    assert.equal(observed.aborted, 1);
+
+    input.end();
+  } finally {
+    if (previousIngestModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousIngestModule;
+    }
+
+    if (previousSoustackModule === undefined) {
+      delete process.env.SOUSTACK_VALIDATOR_MODULE;
+    } else {
+      process.env.SOUSTACK_VALIDATOR_MODULE = previousSoustackModule;
+    }
+  }
+});
@@ -0,0 +1,133 @@
+import { mkdir, rm, symlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { createMemoryClient } from "../client.js";
+import { loadConfig } from "../config.js";
+import { ToolError } from "../errors.js";
+import { startServer } from "../server.js";
+import { fixture } from "./helpers/fixtures.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+const notAllowed = (error: unknown): boolean => error instanceof ToolError && error.code === "path_not_allowed";
+
+test("config files are discovered and layered under env vars and flags", async () => {
+  const directory = fileURLToPath(new URL("./config-fixture/", import.meta.url));
+  const nested = path.join(directory, "projects", "soup");
+  await mkdir(nested, { recursive: true });
+  await writeFile(
+    path.join(directory, "soustack-mcp.json"),
+    JSON.stringify({
+      modules: { ingest: "./ingest.js", validator: "./validator.js" },
+      defaults: { outDir: "out", options: { strictValidation: true } },
+      allowedRoots: ["recipes"],
+      concurrency: 2,
+      timeouts: { "*": 1000 },
+      logLevel: "info"
+    })
+  );
+
+  try {
+    const { file, config } = await loadConfig({
+      cwd: nested,
+      env: { SOUSTACK_VALIDATOR_MODULE: "soustack-next" },
+      flags: { concurrency: 4, timeouts: { "ingest.document": 5000 }, defaults: { options: { maxRecipes: 3 } } }
+    });
+
+    assert.equal(file, path.join(directory, "soustack-mcp.json"));
+    assert.deepEqual(config, {
+      modules: { ingest: new URL("./config-fixture/ingest.js", import.meta.url).href, validator: "soustack-next" },
+      defaults: { outDir: path.join(directory, "out"), options: { strictValidation: true, maxRecipes: 3 } },
+      allowedRoots: [path.join(directory, "recipes")],
+      concurrency: 4,
+      timeouts: { "*": 1000, "ingest.document": 5000 },
+      logLevel: "info"
+    });
+
+    const skipped = await loadConfig({ cwd: nested, env: {}, discover: false });
+    assert.deepEqual(skipped, { file: null, config: {} });
+
+    const repository = path.join(directory, "projects", "repository");
+    await mkdir(path.join(repository, ".git", "objects"), { recursive: true });
+    await mkdir(path.join(repository, "src"), { recursive: true });
+    assert.deepEqual(await loadConfig({ cwd: path.join(repository, "src"), env: {} }), { file: null, config: {} });
+
+    await writeFile(path.join(directory, "soustack-mcp.json"), JSON.stringify({ concurrency: 0, colour: "blue" }));
+    await assert.rejects(loadConfig({ cwd: nested, env: {} }), /concurrency must be at least 1\. colour is not a supported field\./);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("server defaults, allowed roots and config.show come from the server options", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const fixtures = path.resolve(process.cwd(), "src/tests/fixtures");
+
+  startServer({
+    input,
+    output,
+    ordered: true,
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") },
+    defaults: { options: { returnRecipes: false } },
+    allowedRoots: [fixtures]
+  });
+
+  const requests = [
+    { id: "show", tool: "config.show", input: {} },
+    { id: "inside", tool: "ingest.document", input: { inputPath: path.join(fixtures, "sample-document.txt") } },
+    { id: "outside", tool: "ingest.document", input: { inputPath: "/etc/hosts" } }
+  ];
+  requests.forEach((request) => input.write(`${JSON.stringify(request)}\n`));
+  input.end();
+
+  const [show, inside, outside] = await collectLines(output, requests.length);
+
+  assert.deepEqual(show.output, {
+    file: null,
+    config: {
+      modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") },
+      defaults: { options: { returnRecipes: false } },
+      allowedRoots: [fixtures],
+      ordered: true
+    }
+  });
+
+  assert.equal(inside.ok, true);
+  assert.equal((inside.output as { recipes?: unknown }).recipes, undefined);
+
+  assert.equal(errorOf(outside).code, "path_not_allowed");
+  assert.equal(errorOf(outside).details?.pointer, "/inputPath");
+});
+
+test("allowed roots follow symlinks before checking inputPath and outDir", async () => {
+  const directory = fileURLToPath(new URL("./roots-fixture/", import.meta.url));
+  const root = path.join(directory, "root");
+  const outside = path.join(directory, "outside");
+  await mkdir(root, { recursive: true });
+  await mkdir(outside, { recursive: true });
+  await writeFile(path.join(outside, "secret.txt"), "Secret\n\nIngredients:\n- salt\n");
+  await symlink(path.join(outside, "secret.txt"), path.join(root, "secret.txt"));
+  await symlink(outside, path.join(root, "escape"));
+
+  const client = createMemoryClient({
+    modules: { ingest: fixture("soustack-ingest.js"), validator: fixture("soustack.js") },
+    allowedRoots: [root]
+  });
+
+  try {
+    await assert.rejects(client.ingestDocument({ inputPath: path.join(root, "secret.txt") }), notAllowed);
+    await writeFile(path.join(root, "notes.txt"), "Notes\n\nIngredients:\n- pepper\n");
+    await assert.rejects(
+      client.ingestDocument({ inputPath: path.join(root, "notes.txt"), outDir: path.join(root, "escape", "out") }),
+      notAllowed
+    );
+    const inside = await client.ingestDocument({ inputPath: path.join(root, "notes.txt"), outDir: path.join(root, "out") });
+    assert.equal(inside.ok, true);
+  } finally {
+    await client.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
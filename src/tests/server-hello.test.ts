@@ -0,0 +1,99 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import type { HelloOutput } from "../protocol.js";
+import { startServer } from "../server.js";
+import { withFixtureModules } from "./helpers/fixtures.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+const createClient = () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+
+  startServer({ input, output });
+
+  const send = async (request: Record<string, unknown>) => {
+    input.write(`${JSON.stringify(request)}\n`);
+    return (await collectLines(output, 1))[0];
+  };
+
+  return { send, close: () => input.end() };
+};
+
+test("hello negotiates the protocol version, features and reports resolved modules", async () => {
+  await withFixtureModules(async () => {
+    const client = createClient();
+    const hello = await client.send({
+      id: "hello-1",
+      tool: "hello",
+      input: { protocolVersion: "2.0", features: ["cancellation", "batching", "teleport"] }
+    });
+
+    assert.equal(hello.ok, true);
+    const negotiated = hello.output as HelloOutput;
+    assert.equal(negotiated.protocolVersion, "2.0");
+    assert.deepEqual(negotiated.supportedVersions, ["1.0", "2.0"]);
+    assert.equal(negotiated.server.name, "soustack-mcp-ingest");
+    assert.deepEqual(negotiated.features, { streaming: false, cancellation: true, batching: true });
+    assert.ok(negotiated.tools.includes("ingest.document"));
+    assert.ok(negotiated.errorCodes.includes("invalid_input"));
+    assert.equal(negotiated.modules.ingest.available, true);
+    assert.equal(negotiated.modules.validator.available, true);
+    assert.equal(negotiated.modules.validator.version, negotiated.server.version);
+
+    const inputPath = path.resolve(process.cwd(), "src/tests/fixtures/sample-document.txt");
+    const document = await client.send({
+      id: "document-1",
+      tool: "ingest.document",
+      input: { inputPath },
+      progress: true
+    });
+    assert.equal(document.id, "document-1");
+    assert.equal(document.ok, true);
+
+    client.close();
+  });
+});
+
+test("hello downgrades old clients to the original envelope behavior", async () => {
+  await withFixtureModules(async () => {
+    const client = createClient();
+    const hello = await client.send({ id: "hello-1", tool: "hello", input: { protocolVersion: "1.0" } });
+    assert.equal((hello.output as HelloOutput).protocolVersion, "1.0");
+    assert.deepEqual((hello.output as HelloOutput).features, { streaming: false, cancellation: false, batching: false });
+
+    const invalid = await client.send({ id: "segment-1", tool: "ingest.segment", input: { text: "" } });
+    assert.deepEqual(invalid, {
+      id: "segment-1",
+      ok: true,
+      output: { chunks: [], errors: ["text must be a non-empty string."] }
+    });
+
+    const cancel = await client.send({ id: "cancel-1", tool: "cancel", input: { id: "segment-1" } });
+    assert.equal(cancel.ok, false);
+    assert.equal(errorOf(cancel).code, "invalid_request");
+
+    client.close();
+  });
+});
+
+test("hello rejects protocol versions older than every supported one or not numeric", async () => {
+  await withFixtureModules(async () => {
+    const client = createClient();
+    for (const protocolVersion of ["0.9", "next"]) {
+      const hello = await client.send({ id: `hello-${protocolVersion}`, tool: "hello", input: { protocolVersion } });
+      assert.deepEqual(hello, {
+        id: `hello-${protocolVersion}`,
+        ok: false,
+        error: {
+          code: "unsupported_version",
+          message: `Protocol version "${protocolVersion}" is not supported.`,
+          details: { supportedVersions: ["1.0", "2.0"] }
+        }
+      });
+    }
+
+    client.close();
+  });
+});
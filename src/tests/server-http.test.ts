@@ -0,0 +1,138 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { startHttpServer } from "../http.js";
+import type { ProgressEvent } from "../protocol.js";
+import { observed } from "./fixtures/blocking-ingest.js";
+import { fixture } from "./helpers/fixtures.js";
+
+const parseEvents = (body: string): Array<{ event: string; data: Record<string, unknown> }> =>
+  body
+    .split("\n\n")
+    .filter((block) => block.startsWith("event:"))
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        event: eventLine.slice("event: ".length),
+        data: JSON.parse(dataLine.slice("data: ".length))
+      };
+    });
+
+test("HTTP transport dispatches envelopes and streams progress over SSE", async () => {
+  const previousIngestModule = process.env.SOUSTACK_INGEST_MODULE;
+  const previousSoustackModule = process.env.SOUSTACK_VALIDATOR_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = new URL("./fixtures/soustack-ingest.js", import.meta.url).href;
+  process.env.SOUSTACK_VALIDATOR_MODULE = new URL("./fixtures/soustack.js", import.meta.url).href;
+
+  const server = await startHttpServer({ token: "secret" });
+  const headers = { authorization: "Bearer secret", "content-type": "application/json" };
+
+  try {
+    const unauthorized = await fetch(server.url, {
+      method: "POST",
+      body: JSON.stringify({ id: "ping-1", tool: "ping", input: {} })
+    });
+    assert.equal(unauthorized.status, 401);
+    assert.equal((await unauthorized.json()).error.code, "unauthorized");
+
+    const ping = await fetch(server.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ id: "ping-1", tool: "ping", input: {} })
+    });
+    assert.equal(ping.status, 200);
+    assert.deepEqual(await ping.json(), { id: "ping-1", ok: true, output: { pong: true } });
+
+    const missing = await fetch(`${server.url}/rpc`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ id: "missing-1", tool: "missing", input: {} })
+    });
+    assert.equal((await missing.json()).error.code, "tool_not_found");
+
+    const invalid = await fetch(server.url, { method: "POST", headers, body: "{" });
+    assert.equal(invalid.status, 400);
+    assert.equal((await invalid.json()).error.code, "invalid_json");
+
+    const jsonRpc = await fetch(server.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "ping", arguments: {} } })
+    });
+    assert.deepEqual((await jsonRpc.json()).result.structuredContent, { pong: true });
+
+    const inputPath = path.resolve(process.cwd(), "src/tests/fixtures/sample-document.txt");
+    const streamed = await fetch(server.url, {
+      method: "POST",
+      headers: { ...headers, accept: "text/event-stream" },
+      body: JSON.stringify({ id: "document-1", tool: "ingest.document", input: { inputPath } })
+    });
+    assert.equal(streamed.headers.get("content-type"), "text/event-stream");
+
+    const events = parseEvents(await streamed.text());
+    const response = events[events.length - 1];
+    assert.equal(response.event, "response");
+    assert.equal(response.data.id, "document-1");
+    assert.equal(response.data.ok, true);
+    assert.deepEqual(
+      events.slice(0, -1).map((event) => [event.event, (event.data.progress as ProgressEvent).type]),
+      [
+        ["progress", "started"],
+        ["progress", "segmented"],
+        ["progress", "recipe_extracted"],
+        ["progress", "recipe_validated"],
+        ["progress", "completed"]
+      ]
+    );
+  } finally {
+    await server.close();
+
+    if (previousIngestModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousIngestModule;
+    }
+
+    if (previousSoustackModule === undefined) {
+      delete process.env.SOUSTACK_VALIDATOR_MODULE;
+    } else {
+      process.env.SOUSTACK_VALIDATOR_MODULE = previousSoustackModule;
+    }
+  }
+});
+
+test("HTTP tokens scope cancellation and oversized bodies get a 413", async () => {
+  const server = await startHttpServer({
+    token: ["alice-secret", "bob-secret"],
+    maxBodyBytes: 256,
+    modules: { ingest: fixture("blocking-ingest.js"), validator: fixture("soustack.js") }
+  });
+  const post = async (secret: string, body: unknown) =>
+    await fetch(server.url, {
+      method: "POST",
+      headers: { authorization: `Bearer ${secret}`, "content-type": "application/json" },
+      body: JSON.stringify(body)
+    });
+
+  try {
+    const document = post("alice-secret", { id: "document-1", tool: "ingest.document", input: { inputPath: "/tmp/big" } });
+    while (observed.started === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const foreign = await post("bob-secret", { id: "cancel-1", tool: "cancel", input: { id: "document-1" } });
+    assert.deepEqual((await foreign.json()).output, { id: "document-1", cancelled: false });
+    const own = await post("alice-secret", { id: "cancel-2", tool: "cancel", input: { id: "document-1" } });
+    assert.deepEqual((await own.json()).output, { id: "document-1", cancelled: true });
+    assert.equal((await (await document).json()).error.code, "cancelled");
+
+    const oversized = await post("alice-secret", { id: "ping-1", tool: "ping", input: { padding: "x".repeat(1024) } });
+    assert.equal(oversized.status, 413);
+    assert.equal((await oversized.json()).error.code, "payload_too_large");
+
+    const wrong = await post("alice-secret-but-longer", { id: "ping-2", tool: "ping", input: {} });
+    assert.equal(wrong.status, 401);
+  } finally {
+    await server.close();
+  }
+});
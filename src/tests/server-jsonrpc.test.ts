@@ -0,0 +1,102 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "../server.js";
+import { collectLines } from "./helpers/lines.js";
+
+test("JSON-RPC mode implements initialize, tools/list and tools/call next to the legacy envelope", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const readResponse = async () => (await collectLines(output, 1))[0];
+
+  startServer({ input, output });
+
+  input.write(
+    `${JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "0.0.0" } }
+    })}\n`
+  );
+
+  const initialize = await readResponse();
+  assert.equal(initialize.jsonrpc, "2.0");
+  assert.equal(initialize.id, 1);
+  const initialized = initialize.result as {
+    protocolVersion: string;
+    capabilities: Record<string, unknown>;
+    serverInfo: { name: string };
+  };
+  assert.equal(initialized.protocolVersion, "2024-11-05");
+  assert.deepEqual(initialized.capabilities, { tools: { listChanged: false } });
+  assert.equal(initialized.serverInfo.name, "soustack-mcp-ingest");
+
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })}\n`);
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" })}\n`);
+
+  const list = await readResponse();
+  assert.equal(list.id, 2);
+  const names = (list.result as { tools: Array<{ name: string }> }).tools.map((tool) => tool.name);
+  assert.ok(names.includes("ping"));
+  assert.ok(names.includes("ingest.document"));
+
+  input.write(
+    `${JSON.stringify({ jsonrpc: "2.0", id: "call-1", method: "tools/call", params: { name: "ping", arguments: {} } })}\n`
+  );
+
+  const call = await readResponse();
+  assert.equal(call.id, "call-1");
+  const result = call.result as Record<string, unknown>;
+  assert.equal(result.isError, false);
+  assert.deepEqual(result.structuredContent, { pong: true });
+  assert.deepEqual(result.content, [{ type: "text", text: JSON.stringify({ pong: true }) }]);
+
+  input.write(
+    `${JSON.stringify({ jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "unknown", arguments: {} } })}\n`
+  );
+
+  const unknown = await readResponse();
+  assert.equal((unknown.error as { code: number }).code, -32602);
+
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", id: 4, method: "resources/list" })}\n`);
+
+  const missing = await readResponse();
+  assert.equal((missing.error as { code: number }).code, -32601);
+
+  input.write(`${JSON.stringify({ id: "legacy-ping", tool: "ping", input: {} })}\n`);
+
+  const legacy = await readResponse();
+  assert.deepEqual(legacy, { id: "legacy-ping", ok: true, output: { pong: true } });
+
+  input.end();
+});
+
+test("JSON-RPC requests with a null id and JSON-RPC batches are rejected with -32600", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const readResponse = async () => (await collectLines(output, 1))[0];
+
+  startServer({ input, output });
+
+  input.write(`${JSON.stringify({ jsonrpc: "2.0", id: null, method: "ping" })}\n`);
+
+  const nullId = await readResponse();
+  assert.equal(nullId.jsonrpc, "2.0");
+  assert.equal(nullId.id, null);
+  assert.equal((nullId.error as { code: number }).code, -32600);
+
+  input.write(
+    `${JSON.stringify([
+      { jsonrpc: "2.0", id: 1, method: "ping" },
+      { jsonrpc: "2.0", id: 2, method: "tools/list" }
+    ])}\n`
+  );
+
+  const batch = await readResponse();
+  assert.equal(batch.jsonrpc, "2.0");
+  assert.equal(batch.id, null);
+  assert.deepEqual(batch.error, { code: -32600, message: "JSON-RPC batches are not supported." });
+
+  input.end();
+});
@@ -0,0 +1,63 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "../embed.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+test("embedders can register tools, middleware and plugins", async () => {
+  const calls: string[] = [];
+  const server = createServer()
+    .registerTool(
+      "words.count",
+      {
+        description: "Counts words.",
+        inputSchema: { type: "object", required: ["text"], properties: { text: { type: "string" } } },
+        outputSchema: { type: "object", required: ["count"], properties: { count: { type: "integer" } } }
+      },
+      async (input) => ({ count: String(input.text).split(/\s+/).filter(Boolean).length })
+    )
+    .use(async (call, next) => {
+      calls.push(call.tool);
+      return await next();
+    })
+    .use(async (call, next) =>
+      call.tool === "words.count" && typeof call.input.text === "string"
+        ? await next({ ...call.input, text: call.input.text.replace(/-/g, " ") })
+        : await next()
+    );
+  await server.plugin(new URL("./fixtures/echo-plugin.js", import.meta.url).href);
+
+  const input = new PassThrough();
+  const output = new PassThrough();
+  server.start({ input, output, ordered: true });
+
+  input.write(`${JSON.stringify({ id: "count-1", tool: "words.count", input: { text: "flour-eggs milk" } })}\n`);
+  input.write(`${JSON.stringify({ id: "count-2", tool: "words.count", input: { text: 3 } })}\n`);
+  input.write(`${JSON.stringify({ id: "echo-1", tool: "echo", input: { message: "hi" } })}\n`);
+  input.write(`${JSON.stringify({ id: "describe-1", tool: "tools.describe", input: { tool: "words.count" } })}\n`);
+  input.end();
+
+  const [count, invalid, echo, describe] = await collectLines(output, 4);
+  assert.deepEqual(count, { id: "count-1", ok: true, output: { count: 3 } });
+  assert.equal(errorOf(invalid).code, "invalid_input");
+  assert.deepEqual(errorOf(invalid).details?.issues, [{ pointer: "/text", message: "text must be a string." }]);
+  assert.deepEqual(echo, { id: "echo-1", ok: true, output: { message: "hi" } });
+  assert.equal((describe.output as { tools: Array<{ description: string }> }).tools[0].description, "Counts words.");
+  assert.deepEqual(calls, ["words.count", "words.count", "echo", "tools.describe"]);
+});
+
+test("registering a tool over a built-in or control message fails at start", () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+
+  assert.throws(() =>
+    createServer()
+      .registerTool("cancel", {}, async () => ({}))
+      .start({ input, output })
+  );
+  assert.throws(() =>
+    createServer()
+      .registerTool("ping", {}, async () => ({}))
+      .start({ input, output })
+  );
+});
@@ -0,0 +1,75 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { exitCodes, runCommand } from "../commands.js";
+import { startServer } from "../server.js";
+import { maskedValue, parseTranscript } from "../transcript.js";
+
+const modules = {
+  ingest: new URL("./fixtures/soustack-ingest.js", import.meta.url).href,
+  validator: new URL("./fixtures/soustack.js", import.meta.url).href
+};
+
+const replay = async (file: string) => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let printed = "";
+  stdout.on("data", (chunk) => {
+    printed += chunk.toString();
+  });
+
+  const code = await runCommand("replay", [file], { modules, stdout, stderr });
+  return { code, printed };
+};
+
+test("record captures each tool call with volatile fields masked", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const record = new PassThrough();
+  let transcript = "";
+  record.on("data", (chunk) => {
+    transcript += chunk.toString();
+  });
+
+  const handle = startServer({ input, output, ordered: true, modules, record });
+  input.write(`${JSON.stringify({ id: "meta", tool: "ingest.meta", input: {} })}\n`);
+  input.write(`${JSON.stringify({ id: "invalid", tool: "ingest.validate", input: { recipe: { name: "" } } })}\n`);
+  input.end();
+  await handle.done;
+
+  const entries = parseTranscript(transcript);
+  const [meta, invalid] = ["meta", "invalid"].map((id) => entries.find((entry) => entry.id === id));
+  assert.ok(meta && invalid);
+  assert.equal(meta.tool, "ingest.meta");
+  assert.deepEqual(meta.input, {});
+  assert.equal(meta.response.ok && meta.response.output.timestamp, maskedValue);
+  assert.equal(meta.response.ok && (meta.response.output.adapters as { ingest: { loadedAt: string } }).ingest.loadedAt, maskedValue);
+  assert.equal(!invalid.response.ok && invalid.response.error.code, "validation_failed");
+});
+
+test("replay re-runs a golden transcript and reports differing responses", async () => {
+  const golden = path.resolve(process.cwd(), "src/tests/fixtures/golden-session.jsonl");
+  const directory = fileURLToPath(new URL("./replay-fixture/", import.meta.url));
+  await mkdir(directory, { recursive: true });
+
+  try {
+    const matched = await replay(golden);
+    assert.equal(matched.code, exitCodes.ok);
+    assert.match(matched.printed, /3 of 3 responses matched\n$/);
+
+    const changed = path.join(directory, "changed.jsonl");
+    await writeFile(changed, (await readFile(golden, "utf8")).replace('"Simple recipe","ingredients"', '"Plain recipe","ingredients"'));
+    const differs = await replay(changed);
+    assert.equal(differs.code, exitCodes.mismatch);
+    assert.match(
+      differs.printed,
+      /differs extract-1 ingest\.extract\n {2}\/output\/intermediate\/title: expected "Plain recipe", got "Simple recipe"\n/
+    );
+    assert.match(differs.printed, /2 of 3 responses matched\n$/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
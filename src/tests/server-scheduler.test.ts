@@ -0,0 +1,94 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createScheduler } from "../scheduler.js";
+import type { SchedulerStats } from "../scheduler.js";
+import { startServer } from "../server.js";
+import { withDelayedIngest } from "./helpers/fixtures.js";
+import { collectLines } from "./helpers/lines.js";
+
+const documentRequest = (id: string, delay: number) =>
+  `${JSON.stringify({ id, tool: "ingest.document", input: { inputPath: `/delay/${delay}` } })}\n`;
+
+test("responses are written as requests finish unless ordered mode is enabled", async () => {
+  await withDelayedIngest(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startServer({ input, output });
+
+    input.write(documentRequest("slow", 40));
+    input.write(`${JSON.stringify({ id: "fast", tool: "ping", input: {} })}\n`);
+    input.end();
+
+    const responses = await collectLines(output, 2);
+    assert.deepEqual(
+      responses.map((response) => response.id),
+      ["fast", "slow"]
+    );
+  });
+
+  await withDelayedIngest(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startServer({ input, output, ordered: true });
+
+    input.write(documentRequest("slow", 40));
+    input.write(`${JSON.stringify({ id: "fast", tool: "ping", input: {} })}\n`);
+    input.end();
+
+    const responses = await collectLines(output, 2);
+    assert.deepEqual(
+      responses.map((response) => response.id),
+      ["slow", "fast"]
+    );
+  });
+});
+
+test("concurrency limit queues requests and server.status reports queue depth", async () => {
+  await withDelayedIngest(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    startServer({ input, output, concurrency: 1 });
+
+    input.write(documentRequest("first", 30));
+    input.write(documentRequest("second", 0));
+    input.write(`${JSON.stringify({ id: "status", tool: "server.status", input: {} })}\n`);
+    input.end();
+
+    const responses = await collectLines(output, 3);
+    assert.deepEqual(
+      responses.map((response) => response.id),
+      ["status", "first", "second"]
+    );
+
+    const status = (responses[0].output as { scheduler: SchedulerStats }).scheduler;
+    assert.equal(status.concurrency, 1);
+    assert.equal(status.active, 1);
+    assert.equal(status.queued, 1);
+    assert.equal(status.ordered, false);
+  });
+});
+
+test("ordered mode counts held responses against maxQueue", async () => {
+  const events: string[] = [];
+  const scheduler = createScheduler(
+    { concurrency: 4, maxQueue: 2, ordered: true },
+    { pause: () => events.push("pause"), resume: () => events.push("resume") }
+  );
+  let finishFirst = (): void => undefined;
+  scheduler.submit(() => new Promise<string>((resolve) => (finishFirst = () => resolve("first"))));
+  for (let index = 0; index < 4; index += 1) {
+    scheduler.submit(() => `fast-${index}`);
+  }
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  const stats = scheduler.stats();
+  assert.equal(stats.paused, true);
+  assert.ok(stats.waiting + stats.active <= 2);
+  assert.equal(stats.waiting + stats.active + stats.queued, 5);
+
+  finishFirst();
+  await scheduler.idle();
+  assert.equal(scheduler.stats().completed, 5);
+  assert.deepEqual(events, ["pause", "resume"]);
+});
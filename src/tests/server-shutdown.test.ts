@@ -0,0 +1,92 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "../server.js";
+import { withDelayedIngest } from "./helpers/fixtures.js";
+import { readLines } from "./helpers/lines.js";
+
+const documentRequest = (id: string, delay: number) =>
+  `${JSON.stringify({ id, tool: "ingest.document", input: { inputPath: `/delay/${delay}` } })}\n`;
+
+test("shutdown drains in-flight requests and abandons those past the deadline", async () => {
+  await withDelayedIngest(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses = readLines(output);
+    const handle = startServer({ input, output });
+
+    input.write(documentRequest("quick", 10));
+    input.write(documentRequest("stuck", 60_000));
+    input.write(`${JSON.stringify({ id: "shutdown-1", tool: "shutdown", input: { deadlineMs: 50 } })}\n`);
+
+    const report = await handle.done;
+    assert.deepEqual(report, { finished: 1, abandoned: 1 });
+
+    const byId = new Map(responses.map((response) => [response.id, response]));
+    assert.equal(byId.get("quick")?.ok, true);
+    assert.deepEqual(byId.get("stuck"), {
+      id: "stuck",
+      ok: false,
+      error: { code: "shutdown", message: "Request was abandoned because the server is shutting down." }
+    });
+    assert.deepEqual(byId.get("shutdown-1"), { id: "shutdown-1", ok: true, output: { finished: 1, abandoned: 1 } });
+    assert.equal(responses[responses.length - 1].id, "shutdown-1");
+  });
+});
+
+test("closing the input waits for in-flight requests before finishing", async () => {
+  await withDelayedIngest(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses = readLines(output);
+    const handle = startServer({ input, output });
+
+    input.write(documentRequest("slow", 30));
+    input.end();
+
+    assert.deepEqual(await handle.done, { finished: 1, abandoned: 0 });
+    assert.deepEqual(
+      responses.map((response) => [response.id, response.ok]),
+      [["slow", true]]
+    );
+  });
+});
+
+test("closing the input after a JSON-RPC call with invalid params still finishes", async () => {
+  await withDelayedIngest(async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const responses = readLines(output);
+    const handle = startServer({ input, output });
+
+    input.write(`${JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: {} })}\n`);
+    input.end();
+
+    assert.deepEqual(await handle.done, { finished: 0, abandoned: 0 });
+    assert.equal(responses.length, 1);
+    assert.equal((responses[0].error as { code: number }).code, -32602);
+  });
+});
+
+test("shutdown returns within its deadline even when a handler ignores the abort", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const handle = startServer({
+    input,
+    output,
+    tools: {
+      stubborn: {
+        description: "Never finishes and ignores its signal.",
+        inputSchema: { type: "object" },
+        handler: async () => await new Promise<never>(() => undefined)
+      }
+    }
+  });
+
+  input.write(`${JSON.stringify({ id: "stubborn-1", tool: "stubborn", input: {} })}\n`);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  const started = Date.now();
+  assert.deepEqual(await handle.shutdown({ deadlineMs: 100 }), { finished: 0, abandoned: 1 });
+  assert.ok(Date.now() - started < 180);
+});
@@ -0,0 +1,94 @@
+import { connect } from "node:net";
+import type { Socket } from "node:net";
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SchedulerStats } from "../scheduler.js";
+import { startSocketServer } from "../socket.js";
+import { collectLines } from "./helpers/lines.js";
+
+const openClient = async (port: number): Promise<Socket> =>
+  await new Promise<Socket>((resolve, reject) => {
+    const socket = connect({ port, host: "127.0.0.1" }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+
+test("socket server gives each connection its own NDJSON session", async () => {
+  const previousIngestModule = process.env.SOUSTACK_INGEST_MODULE;
+  const previousSoustackModule = process.env.SOUSTACK_VALIDATOR_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = new URL("./fixtures/delayed-ingest.js", import.meta.url).href;
+  process.env.SOUSTACK_VALIDATOR_MODULE = new URL("./fixtures/soustack.js", import.meta.url).href;
+
+  const server = await startSocketServer({ port: 0 });
+  const port = Number(server.address.split(":").pop());
+
+  try {
+    const first = await openClient(port);
+    const second = await openClient(port);
+    const firstResponses = collectLines(first, 1);
+    const secondPingResponses = collectLines(second, 1);
+
+    first.write(`${JSON.stringify({ id: "slow", tool: "ingest.document", input: { inputPath: "/delay/40" } })}\n`);
+    second.write(`${JSON.stringify({ id: "ping-1", tool: "ping", input: {} })}\n`);
+
+    const [secondPing] = await secondPingResponses;
+    assert.deepEqual(secondPing, { id: "ping-1", ok: true, output: { pong: true } });
+
+    const secondStatusResponses = collectLines(second, 1);
+    second.write(`${JSON.stringify({ id: "status-1", tool: "server.status", input: {} })}\n`);
+    const [secondStatus] = await secondStatusResponses;
+    assert.equal((secondStatus.output as { scheduler: SchedulerStats }).scheduler.active, 0);
+    assert.equal(server.connections(), 2);
+
+    const [slow] = await firstResponses;
+    assert.equal(slow.id, "slow");
+    assert.equal(slow.ok, true);
+
+    first.end();
+    second.end();
+  } finally {
+    await server.close();
+
+    if (previousIngestModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousIngestModule;
+    }
+
+    if (previousSoustackModule === undefined) {
+      delete process.env.SOUSTACK_VALIDATOR_MODULE;
+    } else {
+      process.env.SOUSTACK_VALIDATOR_MODULE = previousSoustackModule;
+    }
+  }
+});
+
+test("a client that half-closes still receives the responses to requests in flight", async () => {
+  const server = await startSocketServer({
+    port: 0,
+    modules: {
+      ingest: new URL("./fixtures/delayed-ingest.js", import.meta.url).href,
+      validator: new URL("./fixtures/soustack.js", import.meta.url).href
+    }
+  });
+  const port = Number(server.address.split(":").pop());
+
+  try {
+    const client = await openClient(port);
+    const responses = collectLines(client, 2);
+    const closed = new Promise<void>((resolve) => client.on("close", () => resolve()));
+    client.write(`${JSON.stringify({ id: "ping-1", tool: "ping", input: {} })}\n`);
+    client.write(`${JSON.stringify({ id: "slow", tool: "ingest.document", input: { inputPath: "/delay/100" } })}\n`);
+    client.end();
+
+    assert.deepEqual(
+      (await responses).map((response) => [response.id, response.ok]),
+      [
+        ["ping-1", true],
+        ["slow", true]
+      ]
+    );
+    await closed;
+  } finally {
+    await server.close();
+  }
+});
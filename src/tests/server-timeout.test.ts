@@ -0,0 +1,47 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "../server.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+test("requests that exceed their timeout answer with a timeout error naming the running stage", async () => {
+  const previousModule = process.env.SOUSTACK_INGEST_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = new URL("./fixtures/hanging-ingest.js", import.meta.url).href;
+
+  try {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    startServer({ input, output, timeouts: { "ingest.segment": 20 } });
+
+    input.write(`${JSON.stringify({ id: "configured", tool: "ingest.segment", input: { text: "Pancakes" } })}\n`);
+    input.write(
+      `${JSON.stringify({ id: "override", tool: "ingest.segment", input: { text: "Pancakes" }, timeoutMs: 5 })}\n`
+    );
+    input.end();
+
+    const responses = await collectLines(output, 2);
+
+    assert.deepEqual(
+      responses.map((response) => response.id),
+      ["override", "configured"]
+    );
+    assert.deepEqual(responses[0], {
+      id: "override",
+      ok: false,
+      error: {
+        code: "timeout",
+        message: 'Tool "ingest.segment" timed out after 5ms during the segment stage.',
+        details: { tool: "ingest.segment", stage: "segment", timeoutMs: 5 }
+      }
+    });
+    assert.equal(errorOf(responses[1]).code, "timeout");
+    assert.deepEqual(errorOf(responses[1]).details, { tool: "ingest.segment", stage: "segment", timeoutMs: 20 });
+  } finally {
+    if (previousModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousModule;
+    }
+  }
+});
@@ -0,0 +1,71 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startServer } from "../server.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+const segmentWith = async (moduleUrl: string, text: string, legacyErrors = false) => {
+  const previousModule = process.env.SOUSTACK_INGEST_MODULE;
+  process.env.SOUSTACK_INGEST_MODULE = moduleUrl;
+
+  try {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    startServer({ input, output, legacyErrors });
+    input.write(`${JSON.stringify({ id: "segment-1", tool: "ingest.segment", input: { text } })}\n`);
+    input.end();
+
+    return (await collectLines(output, 1))[0];
+  } finally {
+    if (previousModule === undefined) {
+      delete process.env.SOUSTACK_INGEST_MODULE;
+    } else {
+      process.env.SOUSTACK_INGEST_MODULE = previousModule;
+    }
+  }
+};
+
+test("tool failures map onto the typed error codes", async () => {
+  const failing = new URL("./fixtures/failing-ingest.js", import.meta.url).href;
+  const missingModule = new URL("./fixtures/does-not-exist.js", import.meta.url).href;
+  const validatorOnly = new URL("./fixtures/soustack.js", import.meta.url).href;
+
+  const invalid = await segmentWith(failing, "");
+  assert.equal(invalid.ok, false);
+  assert.deepEqual(invalid.error, {
+    code: "invalid_input",
+    message: "text must be a non-empty string.",
+    details: { issues: [{ pointer: "/text", message: "text must be a non-empty string." }] }
+  });
+
+  const unavailable = await segmentWith(missingModule, "Pancakes");
+  assert.equal(errorOf(unavailable).code, "module_unavailable");
+  assert.equal(errorOf(unavailable).details?.module, missingModule);
+
+  const missingStage = await segmentWith(validatorOnly, "Pancakes");
+  assert.equal(errorOf(missingStage).code, "stage_missing");
+  assert.deepEqual(errorOf(missingStage).details, { module: "soustack-ingest", stage: "normalize" });
+
+  const failed = await segmentWith(failing, "Pancakes");
+  assert.deepEqual(failed.error, {
+    code: "stage_failed",
+    message: "The segment stage failed: segmenter exploded",
+    details: { stage: "segment", error: "segmenter exploded" }
+  });
+});
+
+test("legacyErrors keeps the old failure shapes inside successful envelopes", async () => {
+  const failing = new URL("./fixtures/failing-ingest.js", import.meta.url).href;
+
+  assert.deepEqual(await segmentWith(failing, "", true), {
+    id: "segment-1",
+    ok: true,
+    output: { chunks: [], errors: ["text must be a non-empty string."] }
+  });
+  assert.deepEqual(await segmentWith(failing, "Pancakes", true), {
+    id: "segment-1",
+    ok: true,
+    output: { chunks: [], errors: ["segmenter exploded"] }
+  });
+});
@@ -0,0 +1,59 @@
+import { PassThrough } from "node:stream";
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { JsonSchema } from "../schemas.js";
+import { startServer } from "../server.js";
+import { collectLines, errorOf } from "./helpers/lines.js";
+
+test("tools.describe returns schemas that drive input validation", async () => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const readResponse = async () => (await collectLines(output, 1))[0];
+
+  startServer({ input, output });
+
+  input.write(`${JSON.stringify({ id: "describe-all", tool: "tools.describe", input: {} })}\n`);
+
+  const all = await readResponse();
+  assert.equal(all.ok, true);
+  const names = ((all.output as { tools: unknown }).tools as Array<{ name: string }>).map((tool) => tool.name);
+  assert.ok(names.includes("tools.describe"));
+  assert.ok(names.includes("ingest.extract"));
+
+  input.write(`${JSON.stringify({ id: "describe-extract", tool: "tools.describe", input: { tool: "ingest.extract" } })}\n`);
+
+  const extract = await readResponse();
+  assert.equal(extract.ok, true);
+  const tools = extract.output as { tools: Array<{ inputSchema: JsonSchema; outputSchema: JsonSchema }> };
+  assert.equal(tools.tools.length, 1);
+  assert.deepEqual(tools.tools[0].inputSchema.required, ["text", "chunk"]);
+  assert.deepEqual(tools.tools[0].inputSchema.properties?.chunk.required, ["startLine", "endLine"]);
+  assert.equal(tools.tools[0].outputSchema.type, "object");
+
+  input.write(
+    `${JSON.stringify({
+      id: "extract-invalid",
+      tool: "ingest.extract",
+      input: { text: "", chunk: { startLine: 0, endLine: "2", titleGuess: 3 } }
+    })}\n`
+  );
+
+  const invalid = await readResponse();
+  assert.equal(invalid.ok, false);
+  assert.equal(errorOf(invalid).code, "invalid_input");
+  assert.deepEqual(errorOf(invalid).details?.issues, [
+    { pointer: "/text", message: "text must be a non-empty string." },
+    { pointer: "/chunk/startLine", message: "chunk.startLine must be greater than zero." },
+    { pointer: "/chunk/endLine", message: "chunk.endLine must be a number." },
+    { pointer: "/chunk/titleGuess", message: "chunk.titleGuess must be a string when provided." }
+  ]);
+
+  input.write(`${JSON.stringify({ id: "describe-missing", tool: "tools.describe", input: { tool: "nope" } })}\n`);
+
+  const missing = await readResponse();
+  assert.equal(missing.ok, false);
+  assert.equal(errorOf(missing).code, "invalid_input");
+  assert.deepEqual(errorOf(missing).details?.issues, [{ pointer: "/tool", message: 'Tool "nope" is not available.' }]);
+
+  input.end();
+});
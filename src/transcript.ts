@@ -0,0 +1,126 @@
+import { readFile } from "node:fs/promises";
+import type { ErrorDetails, Response } from "./protocol.js";
+
+export type TranscriptResponse = { ok: true; output: Record<string, unknown> } | { ok: false; error: ErrorDetails };
+
+export type TranscriptEntry = {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
+  response: TranscriptResponse;
+};
+
+export type ReplayResult = {
+  id: string;
+  tool: string;
+  ok: boolean;
+  differences: string[];
+};
+
+export type ReplayCall = (id: string, tool: string, input: Record<string, unknown>) => Promise<Response>;
+
+export const maskedValue = "<masked>";
+
+const adapterFields = ["/output/adapters/*/loadedAt", "/output/adapters/*/generation", "/output/adapters/*/url"];
+
+export const volatileFields: Record<string, string[]> = {
+  "ingest.meta": ["/output/timestamp", ...adapterFields],
+  "ingest.reload": adapterFields,
+  "ingest.pipeline": ["/output/stages/*/durationMs", "/output/chunks/*/stages/*/durationMs"],
+  "server.status": ["/output/scheduler"]
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  Boolean(value) && typeof value === "object";
+
+const maskPointer = (value: unknown, segments: string[]): unknown => {
+  if (segments.length === 0) {
+    return maskedValue;
+  }
+
+  if (!isContainer(value)) {
+    return value;
+  }
+
+  const [segment, ...rest] = segments;
+  const copy: Record<string, unknown> | unknown[] = Array.isArray(value) ? [...value] : { ...value };
+  const keys = segment === "*" ? Object.keys(copy) : Object.hasOwn(copy, segment) ? [segment] : [];
+  keys.forEach((key) => {
+    (copy as Record<string, unknown>)[key] = maskPointer((copy as Record<string, unknown>)[key], rest);
+  });
+  return copy;
+};
+
+export const maskResponse = (tool: string, response: TranscriptResponse): TranscriptResponse =>
+  (volatileFields[tool] ?? []).reduce<TranscriptResponse>(
+    (masked, pointer) => maskPointer(masked, pointer.split("/").slice(1)) as TranscriptResponse,
+    response
+  );
+
+export const toTranscriptEntry = (tool: string, input: Record<string, unknown>, response: Response): TranscriptEntry => {
+  const { id, ...rest } = response;
+  return { id: String(id), tool, input, response: maskResponse(tool, rest as TranscriptResponse) };
+};
+
+const isTranscriptEntry = (value: unknown): value is TranscriptEntry =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.tool === "string" &&
+  isRecord(value.input) &&
+  isRecord(value.response) &&
+  typeof value.response.ok === "boolean";
+
+export const parseTranscript = (text: string, source = "transcript"): TranscriptEntry[] =>
+  text.split("\n").flatMap((line, index) => {
+    if (!line.trim()) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${source}:${index + 1} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!isTranscriptEntry(parsed)) {
+      throw new Error(`${source}:${index + 1} must be an object with id, tool, input and response.`);
+    }
+
+    return [parsed];
+  });
+
+export const readTranscript = async (file: string): Promise<TranscriptEntry[]> =>
+  parseTranscript(await readFile(file, "utf8"), file);
+
+const describeValue = (value: unknown): string => (value === undefined ? "nothing" : JSON.stringify(value));
+
+export const diffValues = (expected: unknown, actual: unknown, pointer = ""): string[] => {
+  if (isContainer(expected) && isContainer(actual) && Array.isArray(expected) === Array.isArray(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys.flatMap((key) =>
+      diffValues(
+        (expected as Record<string, unknown>)[key],
+        (actual as Record<string, unknown>)[key],
+        `${pointer}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`
+      )
+    );
+  }
+
+  return JSON.stringify(expected) === JSON.stringify(actual)
+    ? []
+    : [`${pointer || "/"}: expected ${describeValue(expected)}, got ${describeValue(actual)}`];
+};
+
+export const replayTranscript = async (entries: TranscriptEntry[], call: ReplayCall): Promise<ReplayResult[]> => {
+  const results: ReplayResult[] = [];
+  for (const entry of entries) {
+    const { response } = toTranscriptEntry(entry.tool, entry.input, await call(entry.id, entry.tool, entry.input));
+    const differences = diffValues(maskResponse(entry.tool, entry.response), response);
+    results.push({ id: entry.id, tool: entry.tool, ok: differences.length === 0, differences });
+  }
+  return results;
+};
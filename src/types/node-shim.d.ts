@@ -4,25 +4,81 @@ declare namespace NodeJS {
   }
 
   interface WritableStream {
-    write(chunk: any): any;
+    write(chunk: any, callback?: (error?: Error | null) => void): any;
+    once(event: string, listener: (...args: any[]) => void): this;
   }
 }
 
 declare const process: {
   env: Record<string, string | undefined>;
+  argv: string[];
   stdin: NodeJS.ReadableStream;
   stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  exitCode?: number;
   cwd(): string;
+  once(event: "SIGTERM" | "SIGINT", listener: () => void): void;
+  exit(code?: number): never;
 };
 
 declare class Buffer extends Uint8Array {
-  toString(encoding?: string): string;
+  static from(value: string | Uint8Array | ArrayBuffer, encoding?: string): Buffer;
+  static byteLength(value: string, encoding?: string): number;
+  static concat(chunks: Uint8Array[], length?: number): Buffer;
+  toString(encoding?: string, start?: number, end?: number): string;
+}
+
+declare module "node:crypto" {
+  export interface Hash {
+    update(data: string | Uint8Array): this;
+    digest(): Buffer;
+  }
+
+  export function createHash(algorithm: string): Hash;
+  export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean;
 }
 
 declare module "node:fs/promises" {
-  export function readFile(path: string | URL, options?: any): Promise<string>;
+  export function readFile(path: string | URL): Promise<Buffer>;
+  export function readFile(path: string | URL, options: any): Promise<string>;
+  export function writeFile(path: string | URL, data: string | Uint8Array, options?: any): Promise<void>;
   export function mkdir(path: string | URL, options?: any): Promise<void>;
   export function rm(path: string | URL, options?: any): Promise<void>;
+
+  export type Dirent = {
+    name: string;
+    isFile(): boolean;
+    isDirectory(): boolean;
+    isSymbolicLink(): boolean;
+  };
+
+  export type Stats = {
+    size: number;
+    isFile(): boolean;
+    isDirectory(): boolean;
+    isSymbolicLink(): boolean;
+  };
+
+  export type FileHandle = {
+    read(buffer: Uint8Array, offset: number, length: number, position: number | null): Promise<{ bytesRead: number }>;
+    close(): Promise<void>;
+  };
+
+  export function readdir(path: string | URL, options: { withFileTypes: true }): Promise<Dirent[]>;
+  export function stat(path: string | URL): Promise<Stats>;
+  export function lstat(path: string | URL): Promise<Stats>;
+  export function realpath(path: string | URL): Promise<string>;
+  export function symlink(target: string, path: string | URL): Promise<void>;
+  export function open(path: string | URL, flags?: string): Promise<FileHandle>;
+}
+
+declare module "node:fs" {
+  export type WriteStream = NodeJS.WritableStream & {
+    end(callback?: () => void): void;
+  };
+
+  export function createWriteStream(path: string | URL, options?: any): WriteStream;
+  export function realpathSync(path: string | URL): string;
 }
 
 declare module "node:module" {
@@ -36,6 +92,10 @@ declare module "node:module" {
 declare module "node:readline" {
   export type Interface = {
     on(event: "line", listener: (line: string) => void): void;
+    on(event: "close", listener: () => void): void;
+    pause(): void;
+    resume(): void;
+    close(): void;
   };
 
   export function createInterface(options: { input: NodeJS.ReadableStream; crlfDelay?: number }): Interface;
@@ -53,10 +113,16 @@ declare module "node:stream" {
     write(chunk: any): void;
     end(chunk?: any): void;
     on(event: string, listener: (...args: any[]) => void): this;
+    once(event: string, listener: (...args: any[]) => void): this;
     off(event: string, listener: (...args: any[]) => void): this;
   }
 }
 
+declare module "node:zlib" {
+  export function inflateRawSync(data: Uint8Array, options?: { maxOutputLength?: number }): Buffer;
+  export function deflateRawSync(data: Uint8Array | string): Buffer;
+}
+
 declare module "node:test" {
   export default function test(name: string, fn: () => Promise<void> | void): void;
 }
@@ -67,6 +133,9 @@ declare module "node:assert/strict" {
     equal(actual: any, expected: any, message?: string): asserts actual is typeof expected;
     ok(value: any, message?: string): asserts value;
     deepEqual(actual: any, expected: any, message?: string): void;
+    throws(fn: () => unknown, expected?: RegExp | Error | ((error: unknown) => boolean), message?: string): void;
+    match(value: string, pattern: RegExp, message?: string): void;
+    rejects(promise: Promise<unknown>, expected?: RegExp | Error | ((error: unknown) => boolean), message?: string): Promise<void>;
   }
 
   const assert: Assert;
@@ -77,11 +146,21 @@ declare module "node:path" {
   export function resolve(...paths: string[]): string;
   export function dirname(path: string): string;
   export function join(...paths: string[]): string;
+  export function isAbsolute(path: string): boolean;
+  export function basename(path: string): string;
+  export function relative(from: string, to: string): string;
+  export function extname(path: string): string;
+  export const sep: string;
 
   const path: {
     resolve: typeof resolve;
     dirname: typeof dirname;
     join: typeof join;
+    isAbsolute: typeof isAbsolute;
+    basename: typeof basename;
+    relative: typeof relative;
+    extname: typeof extname;
+    sep: typeof sep;
   };
 
   export default path;
@@ -91,3 +170,60 @@ declare module "node:url" {
   export function fileURLToPath(url: string | URL): string;
   export function pathToFileURL(path: string): URL;
 }
+
+declare module "node:http" {
+  export type IncomingHttpHeaders = Record<string, string | string[] | undefined>;
+
+  export interface IncomingMessage {
+    method?: string;
+    url?: string;
+    headers: IncomingHttpHeaders;
+    on(event: "data", listener: (chunk: Buffer) => void): this;
+    on(event: "end" | "close", listener: () => void): this;
+    on(event: "error", listener: (error: Error) => void): this;
+    destroy(error?: Error): void;
+  }
+
+  export interface ServerResponse {
+    statusCode: number;
+    headersSent: boolean;
+    writableEnded: boolean;
+    writeHead(status: number, headers?: Record<string, string | number>): this;
+    write(chunk: string | Uint8Array): boolean;
+    end(chunk?: string | Uint8Array): this;
+    on(event: "close", listener: () => void): this;
+  }
+
+  export interface Server {
+    listen(port: number, host: string, callback?: () => void): this;
+    close(callback?: (error?: Error) => void): this;
+    closeIdleConnections(): void;
+    address(): { port: number; address: string; family: string } | string | null;
+    once(event: "error", listener: (error: Error) => void): this;
+  }
+
+  export function createServer(listener: (request: IncomingMessage, response: ServerResponse) => void): Server;
+}
+
+declare module "node:net" {
+  export interface Socket extends NodeJS.ReadableStream, NodeJS.WritableStream {
+    write(chunk: string | Uint8Array): boolean;
+    end(chunk?: string | Uint8Array): this;
+    destroy(error?: Error): this;
+    on(event: string, listener: (...args: any[]) => void): this;
+    once(event: string, listener: (...args: any[]) => void): this;
+    setEncoding(encoding: string): this;
+  }
+
+  export interface Server {
+    listen(path: string, callback?: () => void): this;
+    listen(port: number, host: string, callback?: () => void): this;
+    close(callback?: (error?: Error) => void): this;
+    address(): { port: number; address: string; family: string } | string | null;
+    once(event: "error", listener: (error: Error) => void): this;
+  }
+
+  export function createServer(listener: (socket: Socket) => void): Server;
+  export function createServer(options: { allowHalfOpen?: boolean }, listener: (socket: Socket) => void): Server;
+  export function connect(options: { path: string } | { port: number; host?: string }, callback?: () => void): Socket;
+}
@@ -0,0 +1,199 @@
+import { open, readdir, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+
+export const symlinkPolicies = ["skip", "follow"] as const;
+
+export type SymlinkPolicy = (typeof symlinkPolicies)[number];
+
+export type WalkOptions = {
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number | null;
+  symlinks?: SymlinkPolicy;
+  kinds?: readonly string[];
+  allow?: (target: string) => boolean;
+  signal?: AbortSignal;
+};
+
+export type WalkedFile = {
+  path: string;
+  relativePath: string;
+  kind: string;
+};
+
+export type SkippedEntry = {
+  path: string;
+  reason: string;
+};
+
+export type WalkResult = {
+  files: WalkedFile[];
+  skipped: SkippedEntry[];
+};
+
+const extensionKinds: Array<[string, string]> = [
+  [".rtfd.zip", "rtfd.zip"],
+  [".rtf", "rtf"],
+  [".md", "markdown"],
+  [".markdown", "markdown"],
+  [".txt", "text"],
+  [".text", "text"]
+];
+
+const sniffLength = 512;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+const globSource = (pattern: string): string => {
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      const directory = pattern[index + 2] === "/";
+      source += directory ? "(?:.*/)?" : ".*";
+      index += directory ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && pattern.indexOf("}", index) > index) {
+      const close = pattern.indexOf("}", index);
+      source += `(?:${pattern
+        .slice(index + 1, close)
+        .split(",")
+        .map(globSource)
+        .join("|")})`;
+      index = close;
+    } else if (char === "[" && pattern.indexOf("]", index + 1) > index + 1) {
+      const close = pattern.indexOf("]", index + 1);
+      const body = pattern.slice(index + 1, close).replace(/\\/g, "\\\\");
+      source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      index = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+};
+
+const globToRegExp = (pattern: string): RegExp => new RegExp(`^${globSource(pattern)}$`);
+
+const globMatcher = (patterns: string[]): ((relativePath: string) => boolean) => {
+  const compiled = patterns.map((pattern) => ({ regExp: globToRegExp(pattern), wholePath: pattern.includes("/") }));
+  return (relativePath) => {
+    const name = relativePath.split("/").pop() ?? relativePath;
+    return compiled.some(({ regExp, wholePath }) => regExp.test(wholePath ? relativePath : name));
+  };
+};
+
+const sniffInputKind = async (file: string): Promise<string | null> => {
+  const handle = await open(file, "r");
+  try {
+    const bytes = new Uint8Array(sniffLength);
+    const { bytesRead } = await handle.read(bytes, 0, sniffLength, 0);
+    const head = bytes.subarray(0, bytesRead);
+    if (Buffer.from(head).toString("latin1").startsWith("{\\rtf")) {
+      return "rtf";
+    }
+    return head.includes(0) ? null : "text";
+  } finally {
+    await handle.close();
+  }
+};
+
+export const detectInputKind = async (file: string, isDirectory: boolean): Promise<string | null> => {
+  const name = path.basename(file).toLowerCase();
+  if (isDirectory) {
+    return name.endsWith(".rtfd") ? "rtfd-dir" : null;
+  }
+
+  const match = extensionKinds.find(([extension]) => name.endsWith(extension));
+  if (match) {
+    return match[1];
+  }
+
+  return name.includes(".") ? null : await sniffInputKind(file);
+};
+
+export const walkDirectory = async (
+  root: string,
+  { include = [], exclude = [], maxDepth = null, symlinks = "skip", kinds, allow = () => true, signal }: WalkOptions = {}
+): Promise<WalkResult> => {
+  const files: WalkedFile[] = [];
+  const skipped: SkippedEntry[] = [];
+  const visited = new Set<string>([await realpath(root)]);
+  const included = globMatcher(include);
+  const excluded = globMatcher(exclude);
+
+  const addFile = async (fullPath: string, relativePath: string, isDirectory: boolean) => {
+    if (include.length > 0 && !included(relativePath)) {
+      return;
+    }
+
+    const kind = await detectInputKind(fullPath, isDirectory);
+    if (kind === null) {
+      skipped.push({ path: relativePath, reason: "unsupported file kind" });
+    } else if (kinds && !kinds.includes(kind)) {
+      skipped.push({ path: relativePath, reason: `the ingest module does not accept "${kind}" input` });
+    } else {
+      files.push({ path: fullPath, relativePath, kind });
+    }
+  };
+
+  const visit = async (directory: string, relative: string, depth: number): Promise<void> => {
+    signal?.throwIfAborted();
+    const entries = (await readdir(directory, { withFileTypes: true })).sort((left, right) =>
+      left.name.localeCompare(right.name)
+    );
+
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name);
+      const relativePath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (excluded(relativePath)) {
+        continue;
+      }
+
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+      let target = fullPath;
+      if (entry.isSymbolicLink()) {
+        if (symlinks === "skip") {
+          skipped.push({ path: relativePath, reason: "symlink" });
+          continue;
+        }
+
+        try {
+          target = await realpath(fullPath);
+          const stats = await stat(target);
+          isDirectory = stats.isDirectory();
+          isFile = stats.isFile();
+        } catch {
+          skipped.push({ path: relativePath, reason: "broken symlink" });
+          continue;
+        }
+
+        if (!allow(target)) {
+          skipped.push({ path: relativePath, reason: "symlink target is outside the allowed roots" });
+          continue;
+        }
+      }
+
+      if (isDirectory && (await detectInputKind(fullPath, true)) === null) {
+        const real = target === fullPath ? await realpath(fullPath) : target;
+        if (visited.has(real)) {
+          skipped.push({ path: relativePath, reason: "directory was already visited" });
+        } else if (maxDepth !== null && depth >= maxDepth) {
+          skipped.push({ path: relativePath, reason: "deeper than maxDepth" });
+        } else {
+          visited.add(real);
+          await visit(fullPath, relativePath, depth + 1);
+        }
+      } else if (isFile || isDirectory) {
+        await addFile(fullPath, relativePath, isDirectory);
+      }
+    }
+  };
+
+  await visit(root, "", 0);
+  return { files, skipped };
+};
@@ -0,0 +1,111 @@
+import { readFile } from "node:fs/promises";
+import { inflateRawSync } from "node:zlib";
+import { ToolError } from "./errors.js";
+
+export type ZipEntry = {
+  name: string;
+  size: number;
+  directory: boolean;
+  read: () => Uint8Array;
+};
+
+const endOfCentralDirectory = 0x06054b50;
+const centralDirectoryHeader = 0x02014b50;
+const localFileHeader = 0x04034b50;
+const endRecordSize = 22;
+const maxCommentSize = 0xffff;
+const zip64Marker = 0xffffffff;
+const methods = { stored: 0, deflated: 8 };
+const maxInflatedBytes = 512 * 1024 * 1024;
+
+const utf8 = new TextDecoder("utf-8");
+
+const findEndRecord = (view: DataView): number => {
+  const stop = Math.max(0, view.byteLength - endRecordSize - maxCommentSize);
+  for (let offset = view.byteLength - endRecordSize; offset >= stop; offset -= 1) {
+    if (view.getUint32(offset, true) === endOfCentralDirectory) {
+      return offset;
+    }
+  }
+  throw new Error("Not a zip archive: the end of central directory record is missing.");
+};
+
+const decodeName = (bytes: Uint8Array, flags: number): string =>
+  flags & 0x0800 ? utf8.decode(bytes) : Buffer.from(bytes).toString("latin1");
+
+const tooLarge = (name: string, limit: number): ToolError =>
+  new ToolError("invalid_input", `Zip entry "${name}" inflates to more than ${limit} bytes.`, { entry: name, limit });
+
+export const readZip = (data: Uint8Array, { maxTotalSize = maxInflatedBytes } = {}): ZipEntry[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = findEndRecord(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === zip64Marker) {
+    throw new Error("Zip64 archives are not supported.");
+  }
+
+  const entries: ZipEntry[] = [];
+  let inflatedTotal = 0;
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(offset, true) !== centralDirectoryHeader) {
+      throw new Error(`Corrupt zip archive: central directory entry ${index + 1} is invalid.`);
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decodeName(data.subarray(offset + 46, offset + 46 + nameLength), flags);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === zip64Marker || size === zip64Marker || headerOffset === zip64Marker) {
+      throw new Error(`Zip64 entry "${name}" is not supported.`);
+    }
+
+    const read = (): Uint8Array => {
+      if (flags & 0x0001) {
+        throw new Error(`Zip entry "${name}" is encrypted.`);
+      }
+      if (view.getUint32(headerOffset, true) !== localFileHeader) {
+        throw new Error(`Corrupt zip archive: the local header for "${name}" is invalid.`);
+      }
+      const start = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+      const compressed = data.subarray(start, start + compressedSize);
+      if (method === methods.stored) {
+        return compressed;
+      }
+      if (method === methods.deflated) {
+        const limit = Math.min(size, maxTotalSize - inflatedTotal);
+        if (size > limit) {
+          throw tooLarge(name, limit);
+        }
+        let inflated: Uint8Array;
+        try {
+          inflated = inflateRawSync(compressed, { maxOutputLength: Math.max(limit, 1) });
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw tooLarge(name, limit);
+          }
+          throw error;
+        }
+        inflatedTotal += inflated.byteLength;
+        if (inflated.byteLength !== size) {
+          throw new Error(`Corrupt zip archive: "${name}" inflated to ${inflated.byteLength} bytes, expected ${size}.`);
+        }
+        return inflated;
+      }
+      throw new Error(`Zip entry "${name}" uses unsupported compression method ${method}.`);
+    };
+
+    entries.push({ name, size, directory: name.endsWith("/"), read });
+  }
+
+  return entries;
+};
+
+export const readZipFile = async (file: string): Promise<ZipEntry[]> => readZip(await readFile(file));